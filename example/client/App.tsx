@@ -1,29 +1,43 @@
+import { TLAiPromptMode, TldrawAiStatus } from '@tldraw/ai'
 import { FormEventHandler, useCallback, useRef, useState } from 'react'
-import { DefaultSpinner, Editor, Tldraw } from 'tldraw'
+import { DefaultSpinner, Editor, TLComponents, Tldraw, useValue } from 'tldraw'
+import { $isDrawingPromptRegion, $promptRegion, PromptRegion } from './components/PromptRegion'
 import { SpeechInterface } from './components/SpeechInterface'
+import { Transcript } from './components/Transcript'
 import { MODEL_CONFIGS, ModelType } from './modelConfig'
 import './styles/App.css'
 import { useTldrawAiExample } from './useTldrawAiExample'
 
+const STATUS_LABELS: Record<TldrawAiStatus['state'], string> = {
+	idle: '',
+	'building-prompt': 'Preparing prompt…',
+	waiting: 'Waiting for the model…',
+	streaming: 'Drawing…',
+	applying: 'Applying changes…',
+}
+
 // Separate component that uses the AI functionality
 function TldrawAiContainer({ editor }: { editor: Editor }) {
 	const [selectedModel, setSelectedModel] = useState<ModelType>('gpt-4.1-2025-04-14')
 	const [isListening, setIsListening] = useState(false)
-	const [isLoading, setIsLoading] = useState(false)
-	const [isBusy, setIsBusy] = useState(false)
 	const [isSpeaking, setIsSpeaking] = useState(false)
 	const [selectedVoice, setSelectedVoice] = useState('alloy')
 	const [inputValue, setInputValue] = useState('')
 	const abortControllerRef = useRef<AbortController | null>(null)
-	const { prompt, cancel } = useTldrawAiExample(editor, selectedModel)
+	const { prompt, cancel, status, transcript } = useTldrawAiExample(editor, selectedModel)
+	const isBusy = status.state !== 'idle'
+	const hasPromptRegion = useValue('has prompt region', () => !!$promptRegion.get(), [])
+	const isDrawingPromptRegion = useValue(
+		'is drawing prompt region',
+		() => $isDrawingPromptRegion.get(),
+		[]
+	)
 
 	const handleInput = useCallback(
-		async (text: string) => {
+		async (text: string, mode?: TLAiPromptMode) => {
 			if (isBusy) return
 
-			console.log('🎯 Processing input:', { text, model: selectedModel })
-			setIsBusy(true)
-			setIsLoading(true)
+			console.log('🎯 Processing input:', { text, mode, model: selectedModel })
 
 			// Store current listening state
 			const wasListening = isListening
@@ -36,13 +50,11 @@ function TldrawAiContainer({ editor }: { editor: Editor }) {
 			abortControllerRef.current = new AbortController()
 
 			try {
-				await prompt(text)
+				await prompt(text, mode)
 				console.log('✅ Input processing completed')
 			} catch (e) {
 				console.error('❌ Error processing input:', e)
 			} finally {
-				setIsBusy(false)
-				setIsLoading(false)
 				setIsSpeaking(false)
 				// Restore listening state if it was previously enabled
 				if (wasListening) {
@@ -53,14 +65,18 @@ function TldrawAiContainer({ editor }: { editor: Editor }) {
 		[prompt, selectedModel, isBusy, isListening]
 	)
 
-	const handleTextSubmit: FormEventHandler = (e) => {
-		e.preventDefault()
+	const submitText = (mode?: TLAiPromptMode) => {
 		if (!inputValue.trim()) return
 		console.log('📝 Text input submitted:', inputValue)
-		handleInput(inputValue)
+		handleInput(inputValue, mode)
 		setInputValue('')
 	}
 
+	const handleTextSubmit: FormEventHandler = (e) => {
+		e.preventDefault()
+		submitText()
+	}
+
 	const handleToggleListening = useCallback(() => {
 		if (isBusy) return
 		setIsListening((prev) => {
@@ -110,20 +126,41 @@ function TldrawAiContainer({ editor }: { editor: Editor }) {
 						value={inputValue}
 						onChange={(e) => setInputValue(e.target.value)}
 						placeholder="Type your prompt here..."
-						disabled={isLoading || isBusy}
+						disabled={isBusy}
 						className="text-input"
 					/>
-					<button type="submit" disabled={isLoading || isBusy} className="submit-button">
-						{isLoading ? <DefaultSpinner /> : 'Send'}
+					<button type="submit" disabled={isBusy} className="submit-button">
+						{isBusy ? <DefaultSpinner /> : 'Send'}
+					</button>
+					{/* Ask a question about the canvas, rather than asking for changes */}
+					<button
+						type="button"
+						onClick={() => submitText('answer')}
+						disabled={isBusy}
+						className="submit-button"
+					>
+						Ask
 					</button>
 				</form>
 
+				<button
+					onClick={() => {
+						if (hasPromptRegion) {
+							$promptRegion.set(null)
+						} else {
+							$isDrawingPromptRegion.set(!isDrawingPromptRegion)
+						}
+					}}
+					disabled={isBusy}
+					className="submit-button"
+				>
+					{hasPromptRegion ? 'Clear region' : isDrawingPromptRegion ? 'Drag a region…' : 'Region'}
+				</button>
+
 				{isBusy && (
 					<button
 						onClick={() => {
 							cancel()
-							setIsBusy(false)
-							setIsLoading(false)
 							setIsSpeaking(false)
 						}}
 						className="cancel-button"
@@ -133,15 +170,25 @@ function TldrawAiContainer({ editor }: { editor: Editor }) {
 				)}
 			</div>
 
-			{isLoading && (
+			{isBusy ? (
 				<div className="loading">
 					<DefaultSpinner />
+					{STATUS_LABELS[status.state]}
+					{status.received > 0 && ` (${status.applied} of ${status.received} changes applied)`}
 				</div>
-			)}
+			) : status.error ? (
+				<div className="loading error">Something went wrong: {String(status.error)}</div>
+			) : null}
+
+			<Transcript editor={editor} entries={transcript} />
 		</div>
 	)
 }
 
+const components: TLComponents = {
+	InFrontOfTheCanvas: PromptRegion,
+}
+
 // Main App component
 function App() {
 	const [editor, setEditor] = useState<Editor | null>(null)
@@ -149,7 +196,7 @@ function App() {
 	return (
 		<div className="app-container">
 			<div className="tldraw-wrapper">
-				<Tldraw persistenceKey="tldraw-ai-demo" onMount={setEditor} />
+				<Tldraw persistenceKey="tldraw-ai-demo" components={components} onMount={setEditor} />
 			</div>
 			{editor && <TldrawAiContainer editor={editor} />}
 		</div>
@@ -0,0 +1,92 @@
+import { PointerEvent, useRef } from 'react'
+import { atom, Box, BoxModel, useEditor, useValue, VecLike } from 'tldraw'
+
+/** The region that the AI should draw into, or null to draw anywhere in the viewport. */
+export const $promptRegion = atom<BoxModel | null>('prompt region', null)
+
+/** Whether the user is dragging out a new prompt region. */
+export const $isDrawingPromptRegion = atom('is drawing prompt region', false)
+
+/**
+ * Shows the prompt region on the canvas, and lets the user drag out a new region while
+ * `$isDrawingPromptRegion` is set. Render it in the editor's `InFrontOfTheCanvas` component.
+ */
+export function PromptRegion() {
+	const editor = useEditor()
+	const rOrigin = useRef<VecLike | null>(null)
+
+	const camera = useValue('camera', () => editor.getCamera(), [editor])
+	const region = useValue('prompt region', () => $promptRegion.get(), [])
+	const isDrawing = useValue('is drawing prompt region', () => $isDrawingPromptRegion.get(), [])
+
+	const getPagePoint = (e: PointerEvent) => editor.screenToPage({ x: e.clientX, y: e.clientY })
+
+	const handlePointerDown = (e: PointerEvent) => {
+		e.stopPropagation()
+		e.currentTarget.setPointerCapture(e.pointerId)
+		rOrigin.current = getPagePoint(e)
+		$promptRegion.set(null)
+	}
+
+	const handlePointerMove = (e: PointerEvent) => {
+		if (!rOrigin.current) return
+		e.stopPropagation()
+		$promptRegion.set(Box.FromPoints([rOrigin.current, getPagePoint(e)]).toJson())
+	}
+
+	const handlePointerUp = (e: PointerEvent) => {
+		if (!rOrigin.current) return
+		e.stopPropagation()
+		e.currentTarget.releasePointerCapture(e.pointerId)
+		rOrigin.current = null
+		$isDrawingPromptRegion.set(false)
+
+		// Treat a click without a drag as clearing the region
+		const region = $promptRegion.get()
+		if (region && (region.w < 1 || region.h < 1)) {
+			$promptRegion.set(null)
+		}
+	}
+
+	if (!region && !isDrawing) return null
+
+	return (
+		<div
+			onPointerDown={isDrawing ? handlePointerDown : undefined}
+			onPointerMove={isDrawing ? handlePointerMove : undefined}
+			onPointerUp={isDrawing ? handlePointerUp : undefined}
+			style={{
+				position: 'absolute',
+				inset: 0,
+				pointerEvents: isDrawing ? 'all' : 'none',
+				cursor: isDrawing ? 'crosshair' : undefined,
+			}}
+		>
+			{region && (
+				<svg
+					style={{
+						position: 'absolute',
+						inset: 0,
+						width: '100%',
+						height: '100%',
+						overflow: 'visible',
+					}}
+				>
+					<g transform={`scale(${camera.z}) translate(${camera.x}, ${camera.y})`}>
+						<rect
+							x={region.x}
+							y={region.y}
+							width={region.w}
+							height={region.h}
+							fill="var(--color-selected)"
+							fillOpacity={0.05}
+							stroke="var(--color-selected)"
+							strokeWidth={2 / camera.z}
+							strokeDasharray={`${8 / camera.z} ${4 / camera.z}`}
+						/>
+					</g>
+				</svg>
+			)}
+		</div>
+	)
+}
@@ -0,0 +1,95 @@
+import { TldrawAiTranscriptEntry } from '@tldraw/ai'
+import { ReactNode } from 'react'
+import { Editor, TLShapeId } from 'tldraw'
+
+// Links to shapes in the AI's answers, like [the blue box](shape:shape:abc)
+const SHAPE_LINK = /\[([^\]]+)\]\(shape:([^)]+)\)/g
+
+/**
+ * Shows the conversation with the AI as a chat: the user's prompts, the AI's messages and reasoning,
+ * and a summary of the changes it made. Hovering a message highlights the shapes that it refers to.
+ */
+export function Transcript({
+	editor,
+	entries,
+}: {
+	editor: Editor
+	entries: TldrawAiTranscriptEntry[]
+}) {
+	if (!entries.length) return null
+
+	const highlight = (shapeIds: TLShapeId[] = []) => editor.setHintingShapes(shapeIds)
+
+	return (
+		<div className="transcript">
+			{entries.map((entry, i) => {
+				switch (entry.type) {
+					case 'prompt':
+						return (
+							<div key={i} className="transcript-entry transcript-prompt">
+								{entry.message.map((m) => (m.type === 'text' ? m.text : '')).join('')}
+							</div>
+						)
+					case 'message':
+						return (
+							<div
+								key={i}
+								className="transcript-entry transcript-message"
+								onMouseEnter={() => highlight(entry.shapeIds)}
+								onMouseLeave={() => highlight()}
+							>
+								{renderShapeLinks(entry.text, (shapeId) =>
+									highlight(shapeId ? [shapeId] : entry.shapeIds)
+								)}
+							</div>
+						)
+					case 'reasoning':
+						return (
+							<div key={i} className="transcript-entry transcript-reasoning">
+								{entry.text}
+							</div>
+						)
+					case 'changes':
+						return (
+							<details key={i} className="transcript-entry transcript-changes">
+								<summary>
+									{entry.changes.length} {entry.changes.length === 1 ? 'change' : 'changes'}
+								</summary>
+								<ul>
+									{entry.changes.map((change, j) => (
+										<li key={j}>{change.description || change.type}</li>
+									))}
+								</ul>
+							</details>
+						)
+				}
+			})}
+		</div>
+	)
+}
+
+/**
+ * Render a message's text, turning its links to shapes into spans that highlight their shape on
+ * hover. The rest of the markdown is shown as it is.
+ */
+function renderShapeLinks(text: string, onHover: (shapeId: TLShapeId | null) => void) {
+	const parts: ReactNode[] = []
+	let lastIndex = 0
+	for (const match of text.matchAll(SHAPE_LINK)) {
+		const [link, label, shapeId] = match
+		parts.push(text.slice(lastIndex, match.index))
+		parts.push(
+			<span
+				key={match.index}
+				className="transcript-shape-link"
+				onMouseEnter={() => onHover(shapeId as TLShapeId)}
+				onMouseLeave={() => onHover(null)}
+			>
+				{label}
+			</span>
+		)
+		lastIndex = match.index + link.length
+	}
+	parts.push(text.slice(lastIndex))
+	return parts
+}
@@ -14,25 +14,31 @@ export const MODEL_CONFIGS = {
 		name: 'GPT-4.1',
 		model: 'gpt-4.1-2025-04-14',
 		provider: 'openai',
+		supportsVision: true,
 	},
 	'gpt-4o-2024-11-20': {
 		name: 'GPT-4o',
 		model: 'gpt-4o-2024-11-20',
 		provider: 'openai',
+		supportsVision: true,
 	},
 	'o4-mini-2025-04-16': {
 		name: 'O4 Mini',
 		model: 'o4-mini-2025-04-16',
 		provider: 'openai',
+		supportsVision: true,
 	},
 	'gemini-pro': {
 		name: 'Gemini Pro',
 		model: 'gemini-pro',
 		provider: 'google',
+		supportsVision: false,
 	},
 	'gpt-4o-realtime-preview-2025-06-03': {
 		name: 'GPT-4 Realtime',
 		description: 'Realtime tutor model for interactive learning',
+		// Drawing is handled by GPT-4.1
+		supportsVision: true,
 	},
 } as const
 
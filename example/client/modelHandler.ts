@@ -1,5 +1,6 @@
+import { TLAiResult, TldrawAiChangeHandlers, TldrawAiImageOptions } from '@tldraw/ai'
 import { Editor } from 'tldraw'
-import { ModelType } from './modelConfig'
+import { MODEL_CONFIGS, ModelType } from './modelConfig'
 import {
 	getEventEmitter,
 	handleRealtimeStream,
@@ -18,8 +19,20 @@ interface GenerateParams {
 	signal: AbortSignal
 }
 
-interface GenerateResponse {
-	changes: any // You might want to make this more specific based on your needs
+// Keep screenshots small enough to send with every prompt
+const IMAGE_OPTIONS: TldrawAiImageOptions = {
+	format: 'jpeg',
+	quality: 0.8,
+	maxWidth: 1024,
+	maxHeight: 1024,
+}
+
+// Handle the custom changes that the realtime model sends alongside its drawing
+const CHANGE_HANDLERS: TldrawAiChangeHandlers = {
+	think: (change) => logGPT('Thinking:', change.description),
+	speak: (change) => {
+		window.speechSynthesis?.speak(new SpeechSynthesisUtterance(change.description))
+	},
 }
 
 async function handleDrawingWithGPT41(prompt: any, signal: AbortSignal) {
@@ -43,9 +56,9 @@ async function handleDrawingWithGPT41(prompt: any, signal: AbortSignal) {
 			throw new Error(`Generate request failed: ${res.statusText}`)
 		}
 
-		const result = (await res.json()) as GenerateResponse
+		const result = (await res.json()) as TLAiResult
 		logGPT('Received changes from GPT-4.1:', result.changes)
-		return result.changes
+		return result
 	} catch (err) {
 		logError('Drawing generation error:', err)
 		throw err
@@ -57,6 +70,14 @@ export function createModelHandler(model: ModelType, editor: Editor) {
 	const baseConfig = {
 		editor,
 		transforms: [SimpleIds, ShapeDescriptions, SimpleCoordinates],
+		image: MODEL_CONFIGS[model].supportsVision ? IMAGE_OPTIONS : (false as const),
+		// Leave plenty of room in the model's context window for the rest of the prompt
+		contextBudget: 20_000,
+		// Record which prompt and model made each shape
+		provenance: { model },
+		// Keep the result inside of the prompt region (or viewport), scaling it down if it's too large
+		boundsEnforcement: 'scale' as const,
+		changeHandlers: CHANGE_HANDLERS,
 	}
 
 	// Model-specific handlers
@@ -5,11 +5,14 @@ export class SimpleCoordinates extends TldrawAiTransform {
 	offsetIds = new Set<string>()
 	before: Record<string, number> = {}
 	bounds = {} as Box
+	promptBounds = {} as Box
 
 	override transformPrompt = (input: TLAiPrompt) => {
 		const { canvasContent, promptBounds, contextBounds } = input
-		// Save the original coordinates of context bounds (the user's viewport)
+		// Save the original coordinates of context bounds (the user's viewport) and of the prompt
+		// bounds (the region that the AI should draw into), which may be smaller than the context
 		this.bounds = contextBounds.clone()
+		this.promptBounds = promptBounds.clone()
 
 		// Save the original coordinates of all shapes
 		for (const s of canvasContent.shapes) {
@@ -25,6 +28,12 @@ export class SimpleCoordinates extends TldrawAiTransform {
 			}
 		}
 
+		// Make the bounds of any summarized clusters of shapes relative to the context bounds, too
+		for (const cluster of canvasContent.clusters ?? []) {
+			cluster.bounds.x = Math.floor(cluster.bounds.x - this.bounds.x)
+			cluster.bounds.y = Math.floor(cluster.bounds.y - this.bounds.y)
+		}
+
 		// Make the prompt bounds relative to the context bounds
 		promptBounds.x -= contextBounds.x
 		promptBounds.y -= contextBounds.y
@@ -42,16 +51,16 @@ export class SimpleCoordinates extends TldrawAiTransform {
 			case 'createShape':
 			case 'updateShape': {
 				const { shape } = change
-				// Add back in the offset
+				// Add back in the offset. The AI's coordinates are relative to the context bounds,
+				// including those of any shapes that it placed in the prompt bounds.
 				for (const prop of ['x', 'y'] as const) {
 					if (shape[prop] !== undefined) {
 						shape[prop] += this.bounds[prop]
-					} else {
-						if (offsetIds.has(shape.id)) {
-							shape[prop] = this.before[shape.id + '_' + prop]
-						} else {
-							shape[prop] = this.bounds[prop]
-						}
+					} else if (offsetIds.has(shape.id)) {
+						shape[prop] = this.before[shape.id + '_' + prop]
+					} else if (change.type === 'createShape') {
+						// New shapes without a position go at the corner of the prompt bounds
+						shape[prop] = this.promptBounds[prop]
 					}
 				}
 				return {
@@ -59,9 +68,23 @@ export class SimpleCoordinates extends TldrawAiTransform {
 					shape: shape as TLShapePartial,
 				}
 			}
+			case 'zoomToBounds': {
+				const { bounds } = change
+				return {
+					...change,
+					bounds: { ...bounds, x: bounds.x + this.bounds.x, y: bounds.y + this.bounds.y },
+				}
+			}
 			default: {
 				return change
 			}
 		}
 	}
+
+	override dispose = () => {
+		this.offsetIds.clear()
+		this.before = {}
+		this.bounds = {} as Box
+		this.promptBounds = {} as Box
+	}
 }
@@ -1,4 +1,11 @@
-import { TLAiChange, TLAiPrompt, TldrawAiTransform } from '@tldraw/ai'
+import {
+	isActionChange,
+	isCanvasChange,
+	TLAiAssistantMessage,
+	TLAiChange,
+	TLAiPrompt,
+	TldrawAiTransform,
+} from '@tldraw/ai'
 import { createBindingId, createShapeId } from '@tldraw/tlschema'
 import { exhaustiveSwitchError } from '../utils'
 
@@ -17,10 +24,38 @@ export class SimpleIds extends TldrawAiTransform {
 			this.collectAllIdsRecursively(binding, this.mapObjectWithIdAndWriteSimple)
 		}
 
+		if (input.selectedShapeIds) {
+			input.selectedShapeIds = input.selectedShapeIds.map(
+				(id) => this.originalIdsToSimpleIds.get(id) ?? id
+			)
+		}
+
+		if (input.protectedShapeIds) {
+			input.protectedShapeIds = input.protectedShapeIds.map(
+				(id) => this.originalIdsToSimpleIds.get(id) ?? id
+			)
+		}
+
+		// Refer to the shapes changed in earlier turns of the conversation by their simple ids, too
+		for (const turn of input.conversation ?? []) {
+			if (turn.role !== 'assistant') continue
+			for (const summary of turn.changes) {
+				if (!summary.id) continue
+				const simpleId = this.originalIdsToSimpleIds.get(summary.id)
+				if (simpleId) {
+					summary.id = simpleId
+				} else {
+					this.mapObjectWithIdAndWriteSimple(summary as { id: string })
+				}
+			}
+		}
+
 		return input
 	}
 
 	override transformChange = (change: TLAiChange) => {
+		// Custom changes don't refer to any shapes
+		if (!isCanvasChange(change) && !isActionChange(change)) return change
 		switch (change.type) {
 			case 'createShape': {
 				const { shape } = change
@@ -87,11 +122,49 @@ export class SimpleIds extends TldrawAiTransform {
 					bindingId,
 				}
 			}
+			case 'zoomToBounds': {
+				return change
+			}
+			case 'selectShapes':
+			case 'highlightShapes': {
+				const shapeIds = change.shapeIds.map((simpleId) => {
+					const shapeId = this.simpleIdsToOriginalIds.get(simpleId)
+					if (!shapeId) {
+						throw new Error(`Shape id not found: ${simpleId}`)
+					}
+					return shapeId
+				})
+				return {
+					...change,
+					shapeIds,
+				}
+			}
 			default:
 				return exhaustiveSwitchError(change)
 		}
 	}
 
+	override transformMessage = (message: TLAiAssistantMessage) => {
+		if (!message.shapeIds) return message
+
+		// Point the answer's references, both in its list and in its links, back at the original shapes
+		const getOriginalId = (simpleId: string) => this.simpleIdsToOriginalIds.get(simpleId)
+		return {
+			...message,
+			shapeIds: message.shapeIds.flatMap((simpleId) => getOriginalId(simpleId) ?? []),
+			text: message.text.replace(
+				/\]\(shape:([^)]+)\)/g,
+				(_, simpleId) => `](shape:${getOriginalId(simpleId) ?? simpleId})`
+			),
+		}
+	}
+
+	override dispose = () => {
+		this.originalIdsToSimpleIds.clear()
+		this.simpleIdsToOriginalIds.clear()
+		this.nextSimpleId = 0
+	}
+
 	private mapObjectWithIdAndWriteSimple = (obj: { id: string; fromId?: string; toId?: string }) => {
 		const { originalIdsToSimpleIds, simpleIdsToOriginalIds, nextSimpleId } = this
 
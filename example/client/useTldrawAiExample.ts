@@ -1,7 +1,8 @@
-import type { TLAiChange } from '@tldraw/ai'
+import type { TLAiChange, TLAiPromptMode } from '@tldraw/ai'
 import { useTldrawAi } from '@tldraw/ai'
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
-import { Editor } from 'tldraw'
+import { BoxModel, Editor } from 'tldraw'
+import { $promptRegion } from './components/PromptRegion'
 import { ModelType } from './modelConfig'
 import { createModelHandler } from './modelHandler'
 import { getEventEmitter, handleRealtimeStream, isProcessingSpeechInput } from './realtimeHandler'
@@ -127,6 +128,8 @@ interface WebRTCEvent<T extends keyof WebRTCEvents> {
 interface CustomPromptOptions {
 	message: string
 	stream?: boolean
+	mode?: TLAiPromptMode
+	promptBounds?: BoxModel
 	meta?: {
 		model: ModelType
 	}
@@ -186,13 +189,15 @@ export function useTldrawAiExample(editor: Editor, selectedModel: ModelType) {
 	}, [selectedModel])
 
 	const handleInput = useCallback(
-		async (text: string) => {
+		async (text: string, mode?: TLAiPromptMode) => {
 			if (selectedModel === 'gpt-4o-realtime-preview-2025-06-03') {
 				try {
 					setIsProcessing(true)
 					// For real-time model, handle drawing separately from speech
 					const drawingPromise = ai.prompt({
 						message: text,
+						mode,
+						promptBounds: $promptRegion.get() ?? undefined,
 						meta: { model: 'gpt-4.1-2025-04-14' },
 					} as CustomPromptOptions).promise
 
@@ -210,6 +215,8 @@ export function useTldrawAiExample(editor: Editor, selectedModel: ModelType) {
 				// For text-only models, just handle the drawing
 				await ai.prompt({
 					message: text,
+					mode,
+					promptBounds: $promptRegion.get() ?? undefined,
 					meta: { model: selectedModel },
 				} as CustomPromptOptions).promise
 			}
@@ -220,6 +227,8 @@ export function useTldrawAiExample(editor: Editor, selectedModel: ModelType) {
 	return {
 		prompt: handleInput,
 		repeat: ai.repeat,
+		status: ai.status,
+		transcript: ai.transcript,
 		cancel: () => {
 			ai.cancel()
 			if (window.speechSynthesis) {
@@ -0,0 +1,22 @@
+import '@tldraw/ai'
+
+// Custom change types for the realtime model, which talks the student through the drawing
+
+/** The model describes what it is going to draw. */
+export interface TLAiThinkChange {
+	type: 'think'
+	description: string
+}
+
+/** The model says something to the student, which is read out loud. */
+export interface TLAiSpeakChange {
+	type: 'speak'
+	description: string
+}
+
+declare module '@tldraw/ai' {
+	interface TLAiCustomChanges {
+		think: TLAiThinkChange
+		speak: TLAiSpeakChange
+	}
+}
@@ -1,10 +1,13 @@
-import { TLAiChange, TLAiResult, TLAiSerializedPrompt } from '@tldraw/ai'
+import { TLAiResult, TLAiSerializedPrompt, TLAiStreamItem } from '@tldraw/ai'
 import { Environment } from './types'
 
 export abstract class TldrawAiBaseService {
 	constructor(public env: Environment) {}
 
-	abstract generate(prompt: TLAiSerializedPrompt): Promise<TLAiResult>
+	abstract generate(prompt: TLAiSerializedPrompt, signal?: AbortSignal): Promise<TLAiResult>
 
-	abstract stream(prompt: TLAiSerializedPrompt): AsyncGenerator<TLAiChange>
+	abstract stream(
+		prompt: TLAiSerializedPrompt,
+		signal?: AbortSignal
+	): AsyncGenerator<TLAiStreamItem>
 }
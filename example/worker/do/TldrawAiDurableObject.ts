@@ -1,4 +1,4 @@
-import type { TLAiResult, TLAiSerializedPrompt } from '@tldraw/ai'
+import { isAssistantMessage, TLAiResult, TLAiSerializedPrompt } from '@tldraw/ai'
 import { DurableObject } from 'cloudflare:workers'
 import { AutoRouter, error } from 'itty-router'
 import { TldrawAiBaseService } from '../TldrawAiBaseService'
@@ -22,7 +22,6 @@ export class TldrawAiDurableObject extends DurableObject<Environment> {
 		// when we get a connection request, we stash the room id if needed and handle the connection
 		.post('/generate', (request) => this.generate(request))
 		.post('/stream', (request) => this.stream(request))
-		.post('/cancel', (request) => this.cancel(request))
 
 	// `fetch` is the entry point for all requests to the Durable Object
 	override fetch(request: Request): Response | Promise<Response> {
@@ -30,15 +29,13 @@ export class TldrawAiDurableObject extends DurableObject<Environment> {
 	}
 
 	/**
-	 * Cancel the current stream.
-	 *
-	 * @param _request - The request object containing the prompt.
-	 * @returns A Promise that resolves to a Response object containing the cancelled response.
+	 * Create an abort controller for a request, which is aborted if the client cancels the request or
+	 * disconnects, so that the model stops producing changes.
 	 */
-	cancel(_request: Request) {
-		return new Response('Not implemented', {
-			status: 501,
-		})
+	private createController(request: Request) {
+		const controller = new AbortController()
+		request.signal?.addEventListener('abort', () => controller.abort('Client disconnected'))
+		return controller
 	}
 
 	/**
@@ -49,9 +46,10 @@ export class TldrawAiDurableObject extends DurableObject<Environment> {
 	 */
 	private async generate(request: Request) {
 		const prompt = (await request.json()) as TLAiSerializedPrompt
+		const controller = this.createController(request)
 
 		try {
-			const response = await this.service.generate(prompt)
+			const response = await this.service.generate(prompt, controller.signal)
 
 			// Send back the response as a JSON object
 			return new Response(JSON.stringify(response), {
@@ -76,22 +74,39 @@ export class TldrawAiDurableObject extends DurableObject<Environment> {
 
 		const response: TLAiResult = {
 			changes: [],
+			messages: [],
 		}
 
+		const controller = this.createController(request)
+
 		;(async () => {
 			try {
 				const prompt = await request.json()
 
-				for await (const change of this.service.stream(prompt as TLAiSerializedPrompt)) {
-					response.changes.push(change)
-					const data = `data: ${JSON.stringify(change)}\n\n`
+				// The stream includes the model's messages and reasoning, as well as its changes
+				for await (const item of this.service.stream(
+					prompt as TLAiSerializedPrompt,
+					controller.signal
+				)) {
+					if (controller.signal.aborted) break
+					if (isAssistantMessage(item)) {
+						response.messages!.push(item)
+					} else {
+						response.changes.push(item)
+					}
+					const data = `data: ${JSON.stringify(item)}\n\n`
 					await writer.write(encoder.encode(data))
 					await writer.ready
 				}
 				await writer.close()
 			} catch (error) {
-				console.error('Stream error:', error)
-				await writer.abort(error)
+				if (controller.signal.aborted) {
+					// The stream was cancelled, so end it without an error
+					await writer.close().catch(() => {})
+				} else {
+					console.error('Stream error:', error)
+					await writer.abort(error)
+				}
 			}
 		})()
 
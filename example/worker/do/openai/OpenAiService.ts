@@ -1,5 +1,6 @@
-import { TLAiChange, TLAiResult, TLAiSerializedPrompt } from '@tldraw/ai'
+import { TLAiAssistantMessage, TLAiResult, TLAiSerializedPrompt, TLAiStreamItem } from '@tldraw/ai'
 import OpenAI from 'openai'
+import { TLShapeId } from 'tldraw'
 import { TldrawAiBaseService } from '../../TldrawAiBaseService'
 import { Environment } from '../../types'
 import { generateEvents } from './generate'
@@ -16,21 +17,67 @@ export class OpenAiService extends TldrawAiBaseService {
 		})
 	}
 
-	async generate(prompt: TLAiSerializedPrompt): Promise<TLAiResult> {
+	async generate(prompt: TLAiSerializedPrompt, signal?: AbortSignal): Promise<TLAiResult> {
 		const modelName = prompt.meta?.model || 'gpt-4'
-		const events = await generateEvents(this.openai, prompt, modelName)
+		const { long_description_of_strategy, events } = await generateEvents(
+			this.openai,
+			prompt,
+			modelName,
+			signal
+		)
 		if (this.env.LOG_LEVEL === 'debug') console.log(events)
 		const changes = events.map((event) => getTldrawAiChangesFromSimpleEvents(prompt, event)).flat()
-		return { changes }
+
+		// Send the strategy and the model's thinking along, so that the user can see why it did what it did
+		const messages: TLAiAssistantMessage[] = [
+			{ type: getStrategyType(prompt), text: long_description_of_strategy },
+		]
+		for (const event of events) {
+			if (event.type === 'think') messages.push({ type: 'reasoning', text: event.text })
+			if (event.type === 'answer') {
+				messages.push({
+					type: 'message',
+					text: event.text,
+					shapeIds: event.shapeIds as TLShapeId[],
+				})
+			}
+		}
+
+		return { changes, text: long_description_of_strategy, messages }
 	}
 
-	async *stream(prompt: TLAiSerializedPrompt): AsyncGenerator<TLAiChange> {
+	async *stream(
+		prompt: TLAiSerializedPrompt,
+		signal?: AbortSignal
+	): AsyncGenerator<TLAiStreamItem> {
 		const modelName = prompt.meta?.model || 'gpt-4'
-		for await (const simpleEvent of streamEvents(this.openai, prompt, modelName)) {
+		for await (const simpleEvent of streamEvents(this.openai, prompt, modelName, signal)) {
 			if (this.env.LOG_LEVEL === 'debug') console.log(simpleEvent)
+			if (simpleEvent.type === 'strategy') {
+				yield { type: getStrategyType(prompt), text: simpleEvent.text }
+				continue
+			}
+			if (simpleEvent.type === 'think') {
+				yield { type: 'reasoning', text: simpleEvent.text }
+			}
+			if (simpleEvent.type === 'answer') {
+				yield {
+					type: 'message',
+					text: simpleEvent.text,
+					shapeIds: simpleEvent.shapeIds as TLShapeId[],
+				}
+			}
 			for (const change of getTldrawAiChangesFromSimpleEvents(prompt, simpleEvent)) {
 				yield change
 			}
 		}
 	}
 }
+
+/**
+ * Get the type of message for the model's strategy. When answering a question, the answer is the
+ * message to the user, so the strategy is only reasoning and is left out of the conversation.
+ */
+function getStrategyType(prompt: TLAiSerializedPrompt): TLAiAssistantMessage['type'] {
+	return prompt.mode === 'answer' ? 'reasoning' : 'message'
+}
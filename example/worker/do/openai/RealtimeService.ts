@@ -1,24 +1,12 @@
 import { TLAiChange } from '@tldraw/ai'
+import { TLAiSpeakChange, TLAiThinkChange } from '../../../shared/changes'
 import { TldrawAiBaseService } from '../TldrawAiBaseService'
 
-// Custom change types for the realtime service
-interface TLAiThinkChange {
-	type: 'think'
-	description: string
-}
-
-interface TLAiSpeakChange {
-	type: 'speak'
-	description: string
-}
-
-type RealtimeAiChange = TLAiChange | TLAiThinkChange | TLAiSpeakChange
-
 export class RealtimeService extends TldrawAiBaseService {
 	private static REALTIME_ENDPOINT = 'v1/realtime'
 	private static MODEL_NAME = 'gpt-4o-realtime-preview-2025-06-03'
 
-	async *stream(prompt: any): AsyncGenerator<RealtimeAiChange> {
+	async *stream(prompt: any): AsyncGenerator<TLAiChange> {
 		const response = await fetch(RealtimeService.REALTIME_ENDPOINT, {
 			method: 'POST',
 			headers: {
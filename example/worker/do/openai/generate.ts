@@ -1,18 +1,19 @@
 import { TLAiSerializedPrompt } from '@tldraw/ai'
 import OpenAI from 'openai'
 import { buildPromptMessages } from './prompt'
-import { IModelResponse, ISimpleEvent, ModelResponse, RESPONSE_FORMAT } from './schema'
+import { IModelResponse, ModelResponse, RESPONSE_FORMAT } from './schema'
 
 const MODELS_WITH_JSON_SUPPORT = ['gpt-4.1-2025-04-14', 'gpt-4o-2024-11-20', 'o4-mini-2025-04-16']
 
 /**
- * Prompt the OpenAI model with the given prompt. Stream the events as they come back.
+ * Prompt the OpenAI model with the given prompt, returning its strategy and events.
  */
 export async function generateEvents(
 	model: OpenAI,
 	prompt: TLAiSerializedPrompt,
-	modelName: string = 'gpt-4'
-): Promise<ISimpleEvent[]> {
+	modelName: string = 'gpt-4',
+	signal?: AbortSignal
+): Promise<IModelResponse> {
 	console.log(`🚀 Generating events with model: ${modelName}`)
 
 	const requestOptions: any = {
@@ -32,7 +33,7 @@ export async function generateEvents(
 		hasResponseFormat: !!requestOptions.response_format,
 	})
 
-	const response = await model.chat.completions.create(requestOptions)
+	const response = await model.chat.completions.create(requestOptions, { signal })
 	console.log('📥 Received response from OpenAI')
 
 	const text = response.choices[0]?.message?.content ?? ''
@@ -50,5 +51,5 @@ export async function generateEvents(
 	}
 
 	console.log(`✨ Generated ${json.events.length} events`)
-	return json.events
+	return json
 }
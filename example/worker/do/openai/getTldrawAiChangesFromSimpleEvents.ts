@@ -14,6 +14,7 @@ import {
 	TLGeoShape,
 	TLLineShape,
 	TLNoteShape,
+	TLShapeId,
 	TLTextShape,
 	toRichText,
 } from 'tldraw'
@@ -23,6 +24,8 @@ import {
 	ISimpleEvent,
 	ISimpleFill,
 	ISimpleMoveEvent,
+	ISimpleSelectEvent,
+	ISimpleZoomEvent,
 } from './schema'
 
 export function getTldrawAiChangesFromSimpleEvents(
@@ -40,9 +43,17 @@ export function getTldrawAiChangesFromSimpleEvents(
 		case 'move': {
 			return getTldrawAiChangesFromSimpleMoveEvent(prompt, event)
 		}
-		case 'think': {
+		case 'think':
+		case 'answer': {
 			return []
 		}
+		case 'zoom': {
+			return getTldrawAiChangesFromSimpleZoomEvent(prompt, event)
+		}
+		case 'select':
+		case 'highlight': {
+			return getTldrawAiChangesFromSimpleSelectEvent(prompt, event)
+		}
 		default: {
 			throw exhaustiveSwitchError(event, 'type')
 		}
@@ -303,3 +314,31 @@ function getTldrawAiChangesFromSimpleMoveEvent(
 		},
 	]
 }
+
+function getTldrawAiChangesFromSimpleZoomEvent(
+	prompt: TLAiSerializedPrompt,
+	event: ISimpleZoomEvent
+): TLAiChange[] {
+	const { x, y, width, height, intent } = event
+	return [
+		{
+			type: 'zoomToBounds',
+			description: intent ?? '',
+			bounds: { x, y, w: width, h: height },
+		},
+	]
+}
+
+function getTldrawAiChangesFromSimpleSelectEvent(
+	prompt: TLAiSerializedPrompt,
+	event: ISimpleSelectEvent
+): TLAiChange[] {
+	const { shapeIds, intent } = event
+	return [
+		{
+			type: event.type === 'select' ? 'selectShapes' : 'highlightShapes',
+			description: intent ?? '',
+			shapeIds: shapeIds as TLShapeId[],
+		},
+	]
+}
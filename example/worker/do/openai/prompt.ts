@@ -1,6 +1,7 @@
-import { TLAiSerializedPrompt } from '@tldraw/ai'
+import { TLAiChangePolicy, TLAiSerializedPrompt } from '@tldraw/ai'
 import { asMessage } from '@tldraw/ai/src/utils'
 import {
+	ChatCompletionAssistantMessageParam,
 	ChatCompletionContentPart,
 	ChatCompletionDeveloperMessageParam,
 	ChatCompletionUserMessageParam,
@@ -17,15 +18,17 @@ export function buildPromptMessages(prompt: TLAiSerializedPrompt, modelName: str
 	console.log(`🔄 Building messages for model: ${modelName}`)
 	const systemPrompt = buildSystemPrompt(prompt)
 	const developerMessage = buildDeveloperMessage(prompt)
+	const conversationMessages = buildConversationMessages(prompt)
 	const userMessage = buildUserMessages(prompt, modelName)
 
 	console.log('📨 Final messages structure:', {
 		systemPrompt: { ...systemPrompt, content: systemPrompt.content.substring(0, 100) + '...' },
 		developerMessage,
+		conversationMessages,
 		userMessage,
 	})
 
-	return [systemPrompt, developerMessage, userMessage]
+	return [systemPrompt, developerMessage, ...conversationMessages, userMessage]
 }
 
 /**
@@ -48,18 +51,34 @@ function buildDeveloperMessage(prompt: TLAiSerializedPrompt) {
 		content: [],
 	}
 
+	const { contextBounds, promptBounds } = prompt
+
 	console.log('📐 Viewport bounds:', {
-		x: prompt.promptBounds.x,
-		y: prompt.promptBounds.y,
-		width: prompt.promptBounds.w,
-		height: prompt.promptBounds.h,
+		x: contextBounds.x,
+		y: contextBounds.y,
+		width: contextBounds.w,
+		height: contextBounds.h,
 	})
 
 	developerMessage.content.push({
 		type: 'text',
-		text: `The user\'s current viewport is: { x: ${prompt.promptBounds.x}, y: ${prompt.promptBounds.y}, width: ${prompt.promptBounds.w}, height: ${prompt.promptBounds.h} }`,
+		text: `The user\'s current viewport is: { x: ${contextBounds.x}, y: ${contextBounds.y}, width: ${contextBounds.w}, height: ${contextBounds.h} }`,
 	})
 
+	// The prompt bounds are only smaller than the viewport if the user has marked a target region
+	if (
+		promptBounds.x !== contextBounds.x ||
+		promptBounds.y !== contextBounds.y ||
+		promptBounds.w !== contextBounds.w ||
+		promptBounds.h !== contextBounds.h
+	) {
+		console.log('🎯 Target region:', promptBounds)
+		developerMessage.content.push({
+			type: 'text',
+			text: `The user has marked a target region: { x: ${promptBounds.x}, y: ${promptBounds.y}, width: ${promptBounds.w}, height: ${promptBounds.h} }. Every shape that you create or move must be entirely inside of this region. The shapes outside of the region are there for context only; do not change them.`,
+		})
+	}
+
 	if (prompt.canvasContent) {
 		console.log('🎨 Processing canvas content')
 		const simplifiedCanvasContent = getSimpleContentFromCanvasContent(prompt.canvasContent)
@@ -69,11 +88,93 @@ function buildDeveloperMessage(prompt: TLAiSerializedPrompt) {
 			type: 'text',
 			text: `Here are all of the shapes that are in the user's current viewport:\n\n${JSON.stringify(simplifiedCanvasContent.shapes).replaceAll('\n', ' ')}`,
 		})
+
+		// Shapes that didn't fit in the context budget are summarized in clusters
+		const { clusters } = prompt.canvasContent
+		if (clusters?.length) {
+			developerMessage.content.push({
+				type: 'text',
+				text: `There are too many shapes to list them all. The shapes furthest from where you'll be working have been summarized in clusters instead, each with its number of shapes, its bounds, the most common type of shape and some of its text. You cannot change the shapes in these clusters, but avoid placing shapes on top of them:\n\n${JSON.stringify(
+					clusters.map(({ count, bounds, type, text }) => ({
+						count,
+						x: bounds.x,
+						y: bounds.y,
+						width: bounds.w,
+						height: bounds.h,
+						type,
+						text,
+					}))
+				)}`,
+			})
+		}
+	}
+
+	if (prompt.selectedShapeIds?.length) {
+		developerMessage.content.push({
+			type: 'text',
+			text: `The user has selected the shapes with these ids: ${JSON.stringify(prompt.selectedShapeIds)}. When the user refers to "these" or "the selection", they mean these shapes. Focus your changes on them; the other shapes are there for context.`,
+		})
+	}
+
+	if (prompt.changePolicy) {
+		developerMessage.content.push({
+			type: 'text',
+			text: describeChangePolicy(prompt.changePolicy),
+		})
+	}
+
+	if (prompt.mode === 'answer') {
+		developerMessage.content.push({
+			type: 'text',
+			text: `The user is asking a question about the canvas. Do not create, update, move or delete any shapes; any such changes will be refused. Instead, reply with a single \`answer\` event. Write its text in markdown, and link to the shapes that you mention as [label](shape:shapeId). List every shape that you mention in its shapeIds. You may also use \`zoom\`, \`select\` and \`highlight\` events to show the user what you are talking about.`,
+		})
+	}
+
+	if (prompt.protectedShapeIds?.length) {
+		developerMessage.content.push({
+			type: 'text',
+			text: `These shapes are protected: ${JSON.stringify(prompt.protectedShapeIds)}. They are read-only context. Do not update or delete them, create shapes inside of them, or create bindings from them; any such changes will be refused.`,
+		})
 	}
 
 	return developerMessage
 }
 
+/**
+ * Build the messages for the previous turns of the conversation, so that the model sees them as
+ * chat history rather than as part of the current request.
+ */
+function buildConversationMessages(prompt: TLAiSerializedPrompt) {
+	const messages: Array<ChatCompletionUserMessageParam | ChatCompletionAssistantMessageParam> = []
+
+	for (const turn of prompt.conversation ?? []) {
+		if (turn.role === 'user') {
+			messages.push({
+				role: 'user',
+				content: turn.message
+					.map((message) => (message.type === 'text' ? message.text : ''))
+					.join('\n'),
+			})
+		} else {
+			const lines: string[] = []
+			if (turn.text) {
+				lines.push(turn.text)
+			}
+			if (turn.changes.length) {
+				lines.push('Changes I made to the canvas:')
+				for (const change of turn.changes) {
+					lines.push(`- ${change.type}${change.id ? ` (${change.id})` : ''}: ${change.description}`)
+				}
+			} else {
+				lines.push('I made no changes to the canvas.')
+			}
+			messages.push({ role: 'assistant', content: lines.join('\n') })
+		}
+	}
+
+	return messages
+}
+
 /**
  * Build the user messages.
  */
@@ -148,3 +249,34 @@ function buildUserMessages(prompt: TLAiSerializedPrompt, modelName: string) {
 
 	return userMessage
 }
+
+// How to describe each type of change and shape to the model, in the terms of its schema
+const CHANGE_TYPE_DESCRIPTIONS: Record<string, string> = {
+	createShape: 'create shapes',
+	updateShape: 'update or move shapes',
+	deleteShape: 'delete shapes',
+	createBinding: 'connect arrows to shapes',
+	updateBinding: 'reconnect arrows',
+	deleteBinding: 'disconnect arrows',
+}
+const SHAPE_TYPE_DESCRIPTIONS: Record<string, string> = {
+	geo: 'rectangle, ellipse and cloud',
+}
+
+/**
+ * Describe the limits of a prompt's change policy to the model.
+ */
+function describeChangePolicy({ changeTypes, shapeTypes }: TLAiChangePolicy) {
+	const limits: string[] = []
+	if (changeTypes) {
+		limits.push(
+			`You may only ${changeTypes.map((type) => CHANGE_TYPE_DESCRIPTIONS[type] ?? type).join(', ')}.`
+		)
+	}
+	if (shapeTypes) {
+		limits.push(
+			`You may only create, update or delete these types of shapes: ${shapeTypes.map((type) => SHAPE_TYPE_DESCRIPTIONS[type] ?? type).join(', ')}.`
+		)
+	}
+	return `For this request, your changes are limited. ${limits.join(' ')} Any other changes will be refused.`
+}
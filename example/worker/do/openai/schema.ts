@@ -181,11 +181,43 @@ const SimpleThinkEvent = z.object({
 })
 export type ISimpleThinkEvent = z.infer<typeof SimpleThinkEvent>
 
+// Events that direct the user's attention without changing the canvas
+
+const SimpleZoomEvent = z.object({
+	type: z.literal('zoom'),
+	x: z.number(),
+	y: z.number(),
+	width: z.number(),
+	height: z.number(),
+	intent: z.string(),
+})
+export type ISimpleZoomEvent = z.infer<typeof SimpleZoomEvent>
+
+const SimpleSelectEvent = z.object({
+	type: z.enum(['select', 'highlight']),
+	shapeIds: z.array(z.string()),
+	intent: z.string(),
+})
+export type ISimpleSelectEvent = z.infer<typeof SimpleSelectEvent>
+
+// An answer to a question about the canvas, for prompts that don't change it
+
+const SimpleAnswerEvent = z.object({
+	type: z.literal('answer'),
+	text: z.string(),
+	shapeIds: z.array(z.string()),
+	intent: z.string(),
+})
+export type ISimpleAnswerEvent = z.infer<typeof SimpleAnswerEvent>
+
 export const SimpleEvent = z.union([
 	SimpleThinkEvent,
 	SimpleCreateEvent, // or update
 	SimpleDeleteEvent,
 	SimpleMoveEvent,
+	SimpleZoomEvent,
+	SimpleSelectEvent, // or highlight
+	SimpleAnswerEvent,
 ])
 
 export type ISimpleEvent = z.infer<typeof SimpleEvent>
@@ -4,16 +4,24 @@ import OpenAI from 'openai'
 import { buildPromptMessages } from './prompt'
 import { ISimpleEvent, RESPONSE_FORMAT, SimpleEvent } from './schema'
 
+/** The model's description of its strategy, which it writes before its events. */
+export interface ISimpleStrategy {
+	type: 'strategy'
+	text: string
+}
+
 const MODELS_WITH_JSON_SUPPORT = ['gpt-4.1-2025-04-14', 'gpt-4o-2024-11-20', 'o4-mini-2025-04-16']
 
 /**
- * Prompt the OpenAI model with the given prompt. Stream the events as they come back.
+ * Prompt the OpenAI model with the given prompt. Stream its strategy and then its events as they
+ * come back, until the stream completes or the signal is aborted.
  */
 export async function* streamEvents(
 	model: OpenAI,
 	prompt: TLAiSerializedPrompt,
-	modelName: string = 'gpt-4'
-): AsyncGenerator<ISimpleEvent> {
+	modelName: string = 'gpt-4',
+	signal?: AbortSignal
+): AsyncGenerator<ISimpleStrategy | ISimpleEvent> {
 	//console.log(`🌊 Starting stream with model: ${modelName}`)
 
 	const requestOptions: any = {
@@ -33,7 +41,7 @@ export async function* streamEvents(
 		hasResponseFormat: !!requestOptions.response_format,
 	})
 
-	const stream = model.beta.chat.completions.stream(requestOptions)
+	const stream = model.beta.chat.completions.stream(requestOptions, { signal })
 	console.log('🔗 Stream connection established')
 
 	let accumulatedText = '' // Buffer for incoming chunks
@@ -41,6 +49,7 @@ export async function* streamEvents(
 
 	const events: ISimpleEvent[] = []
 	let maybeUnfinishedEvent: ISimpleEvent | null = null
+	let hasStrategy = false
 
 	// Process the stream as chunks arrive
 	for await (const chunk of stream) {
@@ -56,6 +65,12 @@ export async function* streamEvents(
 		// Even though the accumulated text is incomplete JSON, try to extract data
 		const json = parse(accumulatedText)
 
+		// The strategy comes first, so it's complete once the events have started
+		if (!hasStrategy && json?.events && typeof json.long_description_of_strategy === 'string') {
+			hasStrategy = true
+			yield { type: 'strategy', text: json.long_description_of_strategy }
+		}
+
 		// If we have events, iterate over the events...
 		if (Array.isArray(json?.events)) {
 			// Starting at the current cursor, iterate over the events
@@ -88,7 +103,7 @@ export async function* streamEvents(
 	}
 
 	// If we still have an event, then it was the last event to be seen as a JSON object
-	if (maybeUnfinishedEvent) {
+	if (maybeUnfinishedEvent && !signal?.aborted) {
 		console.log('✨ Processing final event:', maybeUnfinishedEvent)
 		events.push(maybeUnfinishedEvent)
 		yield maybeUnfinishedEvent
@@ -8,6 +8,8 @@ export async function stream(request: IRequest, env: Environment) {
 	const response = await DO.fetch(request.url, {
 		method: 'POST',
 		body: request.body as any,
+		// Stop generating if the client cancels its request or disconnects
+		signal: request.signal,
 	})
 
 	return new Response(response.body as BodyInit, {
@@ -0,0 +1,59 @@
+import { atom } from 'tldraw'
+import { TLAiChange, TLAiChangeSummary, TLAiConversationTurn, TLAiMessage } from './types'
+import { isCanvasChange } from './utils'
+
+/**
+ * The conversation between the user and the AI. Each generation adds the user's message and a
+ * summary of the AI's response, and the turns are sent along with every prompt so that the AI
+ * knows what it has already done.
+ */
+export class TldrawAiConversation {
+	private readonly $turns = atom<TLAiConversationTurn[]>('conversation turns', [])
+
+	/**
+	 * Get the turns in the conversation, oldest first.
+	 */
+	getTurns() {
+		return this.$turns.get()
+	}
+
+	/**
+	 * Add a user message and the AI's response to the conversation.
+	 *
+	 * @param message The user's message
+	 * @param changes The changes that the AI made
+	 * @param text Any text that the AI returned alongside its changes
+	 */
+	addExchange(message: TLAiMessage[], changes: TLAiChange[], text?: string) {
+		this.$turns.update((turns) => [
+			...turns,
+			// Images are left out, as they would quickly make each prompt very large
+			{ role: 'user', message: message.filter((m) => m.type === 'text') },
+			{ role: 'assistant', text, changes: changes.map(summarizeChange) },
+		])
+	}
+
+	/**
+	 * Remove every turn from the conversation, starting a new thread.
+	 */
+	clear() {
+		this.$turns.set([])
+	}
+}
+
+function summarizeChange(change: TLAiChange): TLAiChangeSummary {
+	if (!isCanvasChange(change)) return { type: change.type, description: change.description }
+	const { type, description } = change
+	switch (type) {
+		case 'createShape':
+		case 'updateShape':
+			return { type, id: change.shape.id, description }
+		case 'deleteShape':
+			return { type, id: change.shapeId, description }
+		case 'createBinding':
+		case 'updateBinding':
+			return { type, id: change.binding.id, description }
+		case 'deleteBinding':
+			return { type, id: change.bindingId, description }
+	}
+}
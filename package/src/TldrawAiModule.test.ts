@@ -0,0 +1,877 @@
+import { Box, createShapeId, Editor } from 'tldraw'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { TldrawAiModule } from './TldrawAiModule'
+import { TldrawAiTransform } from './TldrawAiTransform'
+import { createTestEditor } from './test-utils'
+import { TLAiChange } from './types'
+import { estimateTokens, getShapeProvenance, getShapesFromGeneration } from './utils'
+
+declare module './types' {
+	interface TLAiCustomChanges {
+		toast: { type: 'toast'; description: string; message: string }
+	}
+}
+
+let editor: Editor
+let ai: TldrawAiModule
+
+const shapeId = createShapeId('shape')
+const missingId = createShapeId('missing')
+
+beforeEach(() => {
+	editor = createTestEditor()
+	editor.createShape({ id: shapeId, type: 'geo', x: 0, y: 0 })
+	ai = new TldrawAiModule({ editor })
+})
+
+describe('applyChange', () => {
+	it('reports applied changes', () => {
+		const change: TLAiChange = {
+			type: 'updateShape',
+			description: 'move the shape',
+			shape: { id: shapeId, type: 'geo', x: 100 },
+		}
+		expect(ai.applyChange(change)).toEqual({ status: 'applied', change })
+		expect(editor.getShape(shapeId)!.x).toBe(100)
+	})
+
+	it('reports updates to missing shapes as failed', () => {
+		const result = ai.applyChange({
+			type: 'updateShape',
+			description: 'move a missing shape',
+			shape: { id: missingId, type: 'geo', x: 100 },
+		})
+		expect(result.status).toBe('failed')
+		expect(result.reason).toContain(missingId)
+	})
+
+	it('reports bindings to missing shapes as failed', () => {
+		const result = ai.applyChange({
+			type: 'createBinding',
+			description: 'bind to a missing shape',
+			binding: { type: 'arrow', fromId: shapeId, toId: missingId },
+		})
+		expect(result.status).toBe('failed')
+	})
+
+	it('reports deletions of missing shapes as skipped', () => {
+		const result = ai.applyChange({
+			type: 'deleteShape',
+			description: 'delete a missing shape',
+			shapeId: missingId,
+		})
+		expect(result.status).toBe('skipped')
+	})
+})
+
+describe('generate', () => {
+	it('reports errors thrown by transforms against the original change', async () => {
+		class ThrowingTransform extends TldrawAiTransform {
+			override transformChange = (change: TLAiChange): TLAiChange => {
+				if (change.type === 'deleteShape') throw new Error('Unknown shape')
+				return change
+			}
+		}
+
+		ai = new TldrawAiModule({ editor, transforms: [ThrowingTransform] })
+		const { handleChange } = await ai.generate('test')
+		const change: TLAiChange = { type: 'deleteShape', description: 'delete', shapeId }
+
+		expect(await handleChange(change)).toMatchObject({
+			status: 'failed',
+			reason: 'Unknown shape',
+			change,
+		})
+		expect(editor.getShape(shapeId)).toBeDefined()
+	})
+
+	describe('transformChanges', () => {
+		const createdId = createShapeId('created')
+
+		// Keeps only the last update to each shape
+		class DedupeTransform extends TldrawAiTransform {
+			override transformChanges = (changes: TLAiChange[]) => {
+				const seen = new Set<string>()
+				return changes
+					.reverse()
+					.filter((change) => {
+						if (change.type !== 'updateShape') return true
+						if (seen.has(change.shape.id)) return false
+						seen.add(change.shape.id)
+						return true
+					})
+					.reverse()
+			}
+		}
+
+		const changes: TLAiChange[] = [
+			{ type: 'createShape', description: 'create', shape: { id: createdId, type: 'geo' } },
+			{ type: 'updateShape', description: 'move', shape: { id: shapeId, type: 'geo', x: 100 } },
+			{ type: 'updateShape', description: 'move', shape: { id: shapeId, type: 'geo', y: 100 } },
+		]
+
+		it('transforms the whole set of changes before they are applied', async () => {
+			ai = new TldrawAiModule({ editor, transforms: [DedupeTransform] })
+			const { handleChanges, commit } = await ai.generate('test')
+			const results = await handleChanges(structuredClone(changes))
+			await commit()
+
+			expect(results.map((r) => r.status)).toEqual(['applied', 'applied'])
+			expect(editor.getShape(shapeId)).toMatchObject({ x: 0, y: 100 })
+			expect(editor.getShape(createdId)).toBeDefined()
+		})
+
+		it('replaces the changes applied while streaming', async () => {
+			ai = new TldrawAiModule({ editor, transforms: [DedupeTransform] })
+			const { handleChange, finalizeChanges, commit } = await ai.generate('test')
+			for (const change of structuredClone(changes)) {
+				await handleChange(change)
+			}
+			expect(editor.getShape(shapeId)).toMatchObject({ x: 100, y: 100 })
+
+			expect(await finalizeChanges()).toHaveLength(2)
+			await commit()
+			expect(editor.getShape(shapeId)).toMatchObject({ x: 0, y: 100 })
+
+			editor.undo()
+			expect(editor.getShape(createdId)).toBeUndefined()
+		})
+	})
+
+	describe('lifecycle', () => {
+		const calls: string[] = []
+
+		class LifecycleTransform extends TldrawAiTransform {
+			override onStart = () => void calls.push('start')
+			override transformChange = async (change: TLAiChange) => {
+				await Promise.resolve()
+				calls.push('change')
+				return change
+			}
+			override onComplete = () => void calls.push('complete')
+			override onCancel = () => void calls.push('cancel')
+			override onError = () => void calls.push('error')
+			override dispose = () => void calls.push('dispose')
+		}
+
+		const change: TLAiChange = {
+			type: 'updateShape',
+			description: 'move',
+			shape: { id: shapeId, type: 'geo', x: 100 },
+		}
+
+		beforeEach(() => {
+			calls.length = 0
+			ai = new TldrawAiModule({ editor, transforms: [LifecycleTransform] })
+		})
+
+		it('calls the hooks for a completed generation', async () => {
+			const { handleChange, commit } = await ai.generate('test')
+			await handleChange(structuredClone(change))
+			await commit()
+
+			expect(calls).toEqual(['start', 'change', 'complete', 'dispose'])
+			expect(editor.getShape(shapeId)!.x).toBe(100)
+		})
+
+		it('calls the hooks for a cancelled generation', async () => {
+			const { handleChange, cancel } = await ai.generate('test')
+			const pending = handleChange(structuredClone(change))
+			await cancel()
+
+			// The change finished transforming after the generation was cancelled
+			expect((await pending).status).toBe('skipped')
+			expect(calls.filter((call) => call !== 'change')).toEqual(['start', 'cancel', 'dispose'])
+			expect(editor.getShape(shapeId)!.x).toBe(0)
+		})
+
+		it('calls the hooks for a failed generation', async () => {
+			const { handleChange, fail } = await ai.generate('test')
+			await handleChange(structuredClone(change))
+			await fail(new Error('Stream failed'))
+
+			expect(calls).toEqual(['start', 'change', 'error', 'dispose'])
+			expect(editor.getShape(shapeId)!.x).toBe(0)
+		})
+	})
+})
+
+describe('conversation', () => {
+	it('includes earlier exchanges in later prompts', async () => {
+		const first = await ai.generate('make it wider')
+		expect(first.prompt.conversation).toEqual([])
+		await first.handleChanges([
+			{ type: 'updateShape', description: 'widen', shape: { id: shapeId, type: 'geo', x: 50 } },
+		])
+		await first.commit('I will widen the shape')
+
+		const second = await ai.generate('now move it')
+		expect(second.prompt.conversation).toEqual([
+			{ role: 'user', message: [{ type: 'text', text: 'make it wider' }] },
+			{
+				role: 'assistant',
+				text: 'I will widen the shape',
+				changes: [{ type: 'updateShape', id: shapeId, description: 'widen' }],
+			},
+		])
+		await second.cancel()
+
+		// Cancelled generations are not part of the conversation
+		expect(ai.conversation.getTurns()).toHaveLength(2)
+
+		ai.conversation.clear()
+		const third = await ai.generate('start again')
+		expect(third.prompt.conversation).toEqual([])
+	})
+})
+
+describe('selection', () => {
+	it('focuses the prompt on the selected shapes', async () => {
+		const farId = createShapeId('far')
+		editor.createShape({ id: farId, type: 'geo', x: 100_000, y: 100_000 })
+
+		const unselected = await ai.generate('recolor these')
+		expect(unselected.prompt.selectedShapeIds).toEqual([])
+		expect(unselected.prompt.canvasContent.shapes.map((s) => s.id)).toEqual([shapeId])
+		await unselected.cancel()
+
+		// Selected shapes are included even if they are outside of the viewport
+		editor.select(farId)
+		const selected = await ai.generate('recolor these')
+		expect(selected.prompt.selectedShapeIds).toEqual([farId])
+		expect(selected.prompt.canvasContent.shapes.map((s) => s.id)).toEqual([shapeId, farId])
+		await selected.cancel()
+
+		const explicit = await ai.generate({ message: 'recolor these', selectedShapeIds: [shapeId] })
+		expect(explicit.prompt.selectedShapeIds).toEqual([shapeId])
+		await explicit.cancel()
+	})
+})
+
+describe('prompt bounds', () => {
+	it('uses the viewport as context for a smaller prompt region', async () => {
+		const viewport = editor.getViewportPageBounds()
+		const promptBounds = { x: viewport.x + 10, y: viewport.y + 10, w: 50, h: 50 }
+
+		const generation = await ai.generate({ message: 'draw here', promptBounds })
+		expect(generation.prompt.promptBounds.toJson()).toEqual(promptBounds)
+		expect(generation.prompt.contextBounds.equals(viewport)).toBe(true)
+		// Shapes outside of the prompt region are still included as context
+		expect(generation.prompt.canvasContent.shapes.map((s) => s.id)).toEqual([shapeId])
+		await generation.cancel()
+	})
+
+	it('expands the context to include a prompt region outside of the viewport', async () => {
+		const viewport = editor.getViewportPageBounds()
+		const promptBounds = { x: viewport.maxX + 100, y: viewport.y, w: 100, h: 100 }
+
+		const generation = await ai.generate({ message: 'draw here', promptBounds })
+		expect(generation.prompt.contextBounds.maxX).toBe(promptBounds.x + promptBounds.w)
+		expect(generation.prompt.contextBounds.x).toBe(viewport.x)
+		await generation.cancel()
+	})
+})
+
+describe('image', () => {
+	it('scales the screenshot down to fit the maximum dimensions', async () => {
+		ai = new TldrawAiModule({
+			editor,
+			image: { format: 'png', scale: 2, maxWidth: 50, padding: 0 },
+		})
+		const prompt = await ai.getPrompt('draw')
+		expect(prompt.image).toBeDefined()
+		expect(editor.toImage).toHaveBeenCalledWith(
+			prompt.canvasContent.shapes,
+			expect.objectContaining({ format: 'png', scale: 0.5, pixelRatio: 1 })
+		)
+	})
+
+	it('skips the screenshot when images are disabled', async () => {
+		ai = new TldrawAiModule({ editor, image: false })
+		const prompt = await ai.getPrompt('draw')
+		expect(prompt.image).toBeUndefined()
+		expect(editor.toImage).not.toHaveBeenCalled()
+	})
+})
+
+describe('context budget', () => {
+	const promptBounds = new Box(0, 0, 200, 200)
+	const contextBounds = new Box(0, 0, 10_000, 10_000)
+	const farIds = [1, 2, 3].map((i) => createShapeId('far' + i))
+
+	beforeEach(() => {
+		for (const [i, id] of farIds.entries()) {
+			editor.createShape({ id, type: 'geo', x: 5000 + i * 10, y: 5000 })
+		}
+		const budget = estimateTokens([editor.getShape(shapeId)])
+		ai = new TldrawAiModule({ editor, contextBudget: budget })
+	})
+
+	it('summarizes the shapes furthest from the prompt bounds', async () => {
+		const { canvasContent } = await ai.getPrompt('draw', { promptBounds, contextBounds })
+		expect(canvasContent.shapes.map((s) => s.id)).toEqual([shapeId])
+		expect(canvasContent.clusters).toEqual([
+			{ count: 3, bounds: { x: 5000, y: 5000, w: 120, h: 100 }, type: 'geo', text: undefined },
+		])
+	})
+
+	it('always includes the selected shapes', async () => {
+		const { canvasContent } = await ai.getPrompt('draw', {
+			promptBounds,
+			contextBounds,
+			selectedShapeIds: [farIds[2]],
+		})
+		expect(canvasContent.shapes.map((s) => s.id)).toEqual([farIds[2]])
+		expect(canvasContent.clusters).toHaveLength(2)
+	})
+})
+
+describe('cancel policy', () => {
+	const aId = createShapeId('a')
+	const bId = createShapeId('b')
+
+	const streamChanges = async (generation: Awaited<ReturnType<TldrawAiModule['generate']>>) => {
+		const changes: TLAiChange[] = [
+			{ type: 'createShape', description: 'a', shape: { id: aId, type: 'geo', x: 0, y: 0 } },
+			{ type: 'createShape', description: 'b', shape: { id: bId, type: 'geo', x: 200, y: 0 } },
+			{ type: 'updateShape', description: 'resize b', shape: { id: bId, type: 'geo', x: 300 } },
+		]
+		for (const change of changes) await generation.handleChange(change)
+	}
+
+	it('reverts the changes by default', async () => {
+		const generation = await ai.generate('draw')
+		await streamChanges(generation)
+		await generation.cancel()
+		expect(editor.getShape(aId)).toBeUndefined()
+		expect(editor.getShape(bId)).toBeUndefined()
+	})
+
+	it('keeps every change applied so far', async () => {
+		const generation = await ai.generate({ message: 'draw', cancelPolicy: 'keep' })
+		await streamChanges(generation)
+		await generation.cancel()
+		expect(editor.getShape(aId)).toBeDefined()
+		expect(editor.getShape(bId)!.x).toBe(300)
+
+		// The kept changes are a single history entry
+		editor.undo()
+		expect(editor.getShape(aId)).toBeUndefined()
+		expect(editor.getShape(bId)).toBeUndefined()
+	})
+
+	it('keeps only the shapes that were completed', async () => {
+		const generation = await ai.generate({ message: 'draw', cancelPolicy: 'keep-completed' })
+		await streamChanges(generation)
+		await generation.cancel()
+		expect(editor.getShape(aId)).toBeDefined()
+		expect(editor.getShape(bId)).toBeUndefined()
+	})
+
+	it('finds the shape in progress even if an action came after it', async () => {
+		const generation = await ai.generate({ message: 'draw', cancelPolicy: 'keep-completed' })
+		await streamChanges(generation)
+		await generation.handleChange({
+			type: 'highlightShapes',
+			description: 'point at b',
+			shapeIds: [bId],
+		})
+		await generation.cancel()
+		expect(editor.getShape(aId)).toBeDefined()
+		expect(editor.getShape(bId)).toBeUndefined()
+	})
+})
+
+describe('events', () => {
+	class MoveTransform extends TldrawAiTransform {
+		override transformChange = (change: TLAiChange): TLAiChange => {
+			if (change.type !== 'updateShape') return change
+			return { ...change, shape: { ...change.shape, x: (change.shape.x ?? 0) + 10 } }
+		}
+	}
+
+	it('emits the built prompt and each change with its prompt id', async () => {
+		ai = new TldrawAiModule({ editor, transforms: [MoveTransform] })
+		const events: [string, unknown][] = []
+		ai.on('promptBuilt', (e) => events.push(['promptBuilt', e.promptId]))
+		ai.on('changeReceived', (e) => events.push(['changeReceived', e.change]))
+		ai.on('changeApplied', (e) => events.push(['changeApplied', [e.change, e.transformed]]))
+		ai.on('complete', (e) => events.push(['complete', e.changes.length]))
+
+		const generation = await ai.generate('move')
+		const change: TLAiChange = {
+			type: 'updateShape',
+			description: 'move the shape',
+			shape: { id: shapeId, type: 'geo', x: 100 },
+		}
+		await generation.handleChange(change)
+		await generation.commit()
+
+		expect(events).toEqual([
+			['promptBuilt', generation.promptId],
+			['changeReceived', change],
+			['changeApplied', [change, { ...change, shape: { ...change.shape, x: 110 } }]],
+			['complete', 1],
+		])
+	})
+
+	it('emits failed changes and cancellations', async () => {
+		const failed: unknown[] = []
+		const cancelled: unknown[] = []
+		ai.on('changeFailed', (e) => failed.push(e.reason))
+		ai.on('cancelled', (e) => cancelled.push(e.policy))
+
+		const generation = await ai.generate('move')
+		await generation.handleChange({
+			type: 'updateShape',
+			description: 'move a missing shape',
+			shape: { id: missingId, type: 'geo', x: 100 },
+		})
+		await generation.cancel()
+
+		expect(failed).toEqual([`Shape ${missingId} does not exist`])
+		expect(cancelled).toEqual(['revert'])
+	})
+
+	it('stops calling a listener once it is removed', async () => {
+		const ids: string[] = []
+		const unsubscribe = ai.on('promptBuilt', (e) => ids.push(e.promptId))
+		await ai.generate('first')
+		unsubscribe()
+		await ai.generate('second')
+		expect(ids).toHaveLength(1)
+	})
+})
+
+describe('provenance', () => {
+	const createdId = createShapeId('created')
+
+	it('stamps created and updated shapes with their generation', async () => {
+		ai = new TldrawAiModule({ editor, provenance: { model: 'test-model' } })
+		const generation = await ai.generate('draw')
+		const results = await generation.handleChanges([
+			{
+				type: 'createShape',
+				description: 'create a shape',
+				shape: { id: createdId, type: 'geo', x: 0, y: 0 },
+			},
+			{ type: 'updateShape', description: 'move the shape', shape: { id: shapeId, x: 100 } },
+		])
+		await generation.commit()
+
+		expect(getShapeProvenance(editor, createdId)).toMatchObject({
+			promptId: generation.promptId,
+			model: 'test-model',
+			description: 'create a shape',
+		})
+		expect(getShapeProvenance(editor, shapeId)).toMatchObject({ description: 'move the shape' })
+		expect(getShapesFromGeneration(editor, generation.promptId).map((s) => s.id)).toEqual(
+			expect.arrayContaining([createdId, shapeId])
+		)
+
+		// Reports keep the changes as they were received
+		expect(results[0].change).not.toHaveProperty('shape.meta')
+	})
+
+	it('does not stamp shapes by default', async () => {
+		const generation = await ai.generate('draw')
+		await generation.handleChange({
+			type: 'updateShape',
+			description: 'move the shape',
+			shape: { id: shapeId, x: 100 },
+		})
+		await generation.commit()
+
+		expect(getShapeProvenance(editor, shapeId)).toBeUndefined()
+		expect(getShapesFromGeneration(editor, generation.promptId)).toEqual([])
+	})
+})
+
+describe('revert generation', () => {
+	const aId = createShapeId('a')
+	const bId = createShapeId('b')
+
+	const runGeneration = async (changes: TLAiChange[]) => {
+		const generation = await ai.generate('draw')
+		await generation.handleChanges(changes)
+		await generation.commit()
+		return generation.promptId
+	}
+
+	it('reverts an earlier generation after later edits', async () => {
+		const first = await runGeneration([
+			{ type: 'createShape', description: 'a', shape: { id: aId, type: 'geo', x: 0, y: 0 } },
+			{ type: 'updateShape', description: 'move', shape: { id: shapeId, type: 'geo', x: 50 } },
+		])
+		await runGeneration([
+			{ type: 'createShape', description: 'b', shape: { id: bId, type: 'geo', x: 200, y: 0 } },
+		])
+		editor.createShape({ type: 'geo', x: 500, y: 500 })
+
+		const report = ai.revertGeneration(first)
+		expect(report.applied).toHaveLength(2)
+		expect(editor.getShape(aId)).toBeUndefined()
+		expect(editor.getShape(shapeId)!.x).toBe(0)
+		expect(editor.getShape(bId)).toBeDefined()
+		expect(editor.getCurrentPageShapes()).toHaveLength(3)
+
+		// The revert is a single history entry
+		editor.undo()
+		expect(editor.getShape(aId)).toBeDefined()
+		expect(editor.getShape(shapeId)!.x).toBe(50)
+	})
+
+	it('skips shapes that have changed since the generation', async () => {
+		const promptId = await runGeneration([
+			{ type: 'createShape', description: 'a', shape: { id: aId, type: 'geo', x: 0, y: 0 } },
+			{ type: 'createShape', description: 'b', shape: { id: bId, type: 'geo', x: 200, y: 0 } },
+		])
+		editor.updateShape({ id: aId, type: 'geo', x: 100 })
+
+		const report = ai.revertGeneration(promptId)
+		expect(report.applied.map((r) => r.change)).toMatchObject([{ shapeId: bId }])
+		expect(report.skipped).toMatchObject([
+			{
+				change: { type: 'deleteShape', shapeId: aId },
+				reason: `${aId} has changed since the generation`,
+			},
+		])
+		expect(editor.getShape(aId)!.x).toBe(100)
+		expect(editor.getShape(bId)).toBeUndefined()
+	})
+
+	it('throws for generations that have already been reverted', async () => {
+		const promptId = await runGeneration([
+			{ type: 'createShape', description: 'a', shape: { id: aId, type: 'geo', x: 0, y: 0 } },
+		])
+		ai.revertGeneration(promptId)
+		expect(() => ai.revertGeneration(promptId)).toThrow()
+	})
+})
+
+describe('conflict policy', () => {
+	const aId = createShapeId('a')
+
+	const createA: TLAiChange = {
+		type: 'createShape',
+		description: 'a',
+		shape: { id: aId, type: 'geo', x: 0, y: 0 },
+	}
+	const moveA: TLAiChange = {
+		type: 'updateShape',
+		description: 'move a',
+		shape: { id: aId, type: 'geo', x: 300 },
+	}
+
+	it("skips the AI's changes to shapes that the user changed", async () => {
+		const generation = await ai.generate('draw')
+		await generation.handleChange(createA)
+		editor.updateShape({ id: aId, type: 'geo', x: 100 })
+
+		const result = await generation.handleChange(moveA)
+		expect(result).toMatchObject({ status: 'skipped', conflicts: [aId] })
+		await generation.commit()
+		expect(editor.getShape(aId)!.x).toBe(100)
+	})
+
+	it("applies the AI's changes anyway when the AI wins", async () => {
+		const generation = await ai.generate({ message: 'draw', conflictPolicy: 'ai-wins' })
+		await generation.handleChange(createA)
+		editor.updateShape({ id: aId, type: 'geo', x: 100 })
+
+		const result = await generation.handleChange(moveA)
+		expect(result).toMatchObject({ status: 'applied', conflicts: [aId] })
+		await generation.commit()
+		expect(editor.getShape(aId)!.x).toBe(300)
+	})
+
+	it('locks the shapes that the AI changed until the generation ends', async () => {
+		const generation = await ai.generate({ message: 'draw', conflictPolicy: 'lock' })
+		await generation.handleChange(createA)
+		editor.updateShape({ id: aId, type: 'geo', x: 100 })
+		editor.deleteShape(aId)
+		expect(editor.getShape(aId)!.x).toBe(0)
+
+		expect(await generation.handleChange(moveA)).toMatchObject({ status: 'applied' })
+		await generation.commit()
+
+		editor.updateShape({ id: aId, type: 'geo', x: 100 })
+		expect(editor.getShape(aId)!.x).toBe(100)
+	})
+})
+
+describe('protection', () => {
+	const frameId = createShapeId('frame')
+	const childId = createShapeId('child')
+	const lockedId = createShapeId('locked')
+
+	beforeEach(() => {
+		editor.createShape({ id: frameId, type: 'frame', x: 0, y: 0, meta: { aiProtected: true } })
+		editor.createShape({ id: childId, type: 'geo', x: 10, y: 10, parentId: frameId })
+		editor.createShape({ id: lockedId, type: 'geo', x: 300, y: 0, isLocked: true })
+	})
+
+	it('sends the protected shapes as read-only context', async () => {
+		const { protectedShapeIds } = await ai.getPrompt('draw')
+		expect(protectedShapeIds).toEqual(expect.arrayContaining([frameId, childId, lockedId]))
+		expect(protectedShapeIds).not.toContain(shapeId)
+	})
+
+	it('refuses changes that would modify protected shapes', () => {
+		const changes: TLAiChange[] = [
+			{ type: 'updateShape', description: 'move', shape: { id: childId, type: 'geo', x: 50 } },
+			{ type: 'deleteShape', description: 'delete', shapeId: lockedId },
+			{
+				type: 'updateShape',
+				description: 'move into the frame',
+				shape: { id: shapeId, type: 'geo', parentId: frameId },
+			},
+		]
+		for (const change of changes) {
+			expect(ai.applyChange(change)).toMatchObject({ status: 'skipped' })
+		}
+		expect(editor.getShape(childId)!.x).toBe(10)
+		expect(editor.getShape(lockedId)).toBeDefined()
+		expect(editor.getShape(shapeId)!.parentId).toBe(editor.getCurrentPageId())
+	})
+
+	it('can be turned off', () => {
+		ai = new TldrawAiModule({ editor, protection: false })
+		const result = ai.applyChange({
+			type: 'updateShape',
+			description: 'move',
+			shape: { id: childId, type: 'geo', x: 50 },
+		})
+		expect(result.status).toBe('applied')
+	})
+})
+
+describe('change policy', () => {
+	const noteId = createShapeId('note')
+
+	it('includes the policy in the prompt', async () => {
+		const changePolicy = { changeTypes: ['createShape' as const], shapeTypes: ['note'] }
+		const { prompt } = await ai.generate({ message: 'brainstorm', changePolicy })
+		expect(prompt.changePolicy).toEqual(changePolicy)
+	})
+
+	it('skips changes that the policy does not allow', async () => {
+		const generation = await ai.generate({
+			message: 'brainstorm',
+			changePolicy: { changeTypes: ['createShape'], shapeTypes: ['note'] },
+		})
+		const results = await generation.handleChanges([
+			{ type: 'createShape', description: 'note', shape: { id: noteId, type: 'note', x: 0, y: 0 } },
+			{
+				type: 'createShape',
+				description: 'geo',
+				shape: { id: createShapeId(), type: 'geo', x: 0, y: 0 },
+			},
+			{ type: 'deleteShape', description: 'delete', shapeId },
+		])
+		await generation.commit()
+
+		expect(results.map((r) => r.status)).toEqual(['applied', 'skipped', 'skipped'])
+		expect(results[1].reason).toContain('geo shapes')
+		expect(results[2].reason).toContain('deleteShape changes')
+		expect(editor.getShape(noteId)).toBeDefined()
+		expect(editor.getShape(shapeId)).toBeDefined()
+	})
+})
+
+describe('bounds enforcement', () => {
+	const aId = createShapeId('a')
+	const bId = createShapeId('b')
+	const promptBounds = { x: 0, y: 0, w: 200, h: 200 }
+
+	async function generate(positions: number[]) {
+		const generation = await ai.generate({ message: 'draw', promptBounds })
+		await generation.handleChanges(
+			[aId, bId].map((id, i) => ({
+				type: 'createShape',
+				description: 'create',
+				shape: { id, type: 'geo', x: positions[i], y: 0 },
+			}))
+		)
+		await generation.commit()
+	}
+
+	it('moves each shape inside of the bounds', async () => {
+		ai = new TldrawAiModule({ editor, boundsEnforcement: 'clamp' })
+		await generate([300, -50])
+		expect(editor.getShape(aId)).toMatchObject({ x: 100, y: 0 })
+		expect(editor.getShape(bId)).toMatchObject({ x: 0, y: 0 })
+	})
+
+	it('moves the shapes together', async () => {
+		ai = new TldrawAiModule({ editor, boundsEnforcement: 'translate' })
+		await generate([300, 400])
+		expect(editor.getShape(aId)).toMatchObject({ x: 0, y: 0 })
+		expect(editor.getShape(bId)).toMatchObject({ x: 100, y: 0 })
+	})
+
+	it('scales the shapes down together when they are too large', async () => {
+		ai = new TldrawAiModule({ editor, boundsEnforcement: 'scale' })
+		await generate([0, 300])
+		expect(editor.getShapePageBounds(aId)!.toJson()).toEqual({ x: 0, y: 0, w: 50, h: 50 })
+		expect(editor.getShapePageBounds(bId)!.toJson()).toEqual({ x: 150, y: 0, w: 50, h: 50 })
+	})
+
+	it('scales the shapes inside of other shapes along with them', async () => {
+		ai = new TldrawAiModule({ editor, boundsEnforcement: 'scale' })
+		const frameId = createShapeId('frame')
+		const generation = await ai.generate({
+			message: 'draw',
+			promptBounds: { x: 0, y: 0, w: 100, h: 100 },
+		})
+		await generation.handleChanges([
+			{
+				type: 'createShape',
+				description: 'create a frame',
+				shape: { id: frameId, type: 'frame', x: 500, y: 500, props: { w: 400, h: 400 } },
+			},
+			{
+				type: 'createShape',
+				description: 'create a shape in the frame',
+				shape: {
+					id: aId,
+					type: 'geo',
+					parentId: frameId,
+					x: 100,
+					y: 100,
+					props: { w: 200, h: 200 },
+				},
+			},
+		])
+		await generation.commit()
+
+		expect(editor.getShapePageBounds(frameId)!.toJson()).toEqual({ x: 0, y: 0, w: 100, h: 100 })
+		expect(editor.getShapePageBounds(aId)!.toJson()).toEqual({ x: 25, y: 25, w: 50, h: 50 })
+	})
+
+	it('leaves shapes where they are by default', async () => {
+		await generate([300, 400])
+		expect(editor.getShape(aId)).toMatchObject({ x: 300, y: 0 })
+	})
+})
+
+describe('custom changes', () => {
+	const toast: TLAiChange = { type: 'toast', description: 'say hello', message: 'Hello!' }
+
+	it('passes custom changes to their handler', () => {
+		const messages: string[] = []
+		ai = new TldrawAiModule({
+			editor,
+			changeHandlers: { toast: (change) => messages.push(change.message) },
+		})
+		expect(ai.applyChange(toast)).toEqual({ status: 'applied', change: toast })
+		expect(messages).toEqual(['Hello!'])
+	})
+
+	it('fails custom changes without a handler', () => {
+		const result = ai.applyChange(toast)
+		expect(result.status).toBe('failed')
+		expect(result.reason).toContain('toast')
+	})
+
+	it('handles custom changes right away when previewing', async () => {
+		const messages: string[] = []
+		ai = new TldrawAiModule({
+			editor,
+			changeHandlers: { toast: (change) => messages.push(change.message) },
+		})
+		const generation = await ai.generate({ message: 'draw', preview: true })
+		await generation.handleChanges([
+			toast,
+			{
+				type: 'createShape',
+				description: 'create',
+				shape: { id: createShapeId(), type: 'geo', x: 0, y: 0 },
+			},
+		])
+		await generation.commit()
+
+		expect(messages).toEqual(['Hello!'])
+		expect(generation.preview!.getItems().map((item) => item.change.type)).toEqual(['createShape'])
+		expect(ai.conversation.getTurns()[1]).toMatchObject({
+			changes: [{ type: 'toast', description: 'say hello' }, { type: 'createShape' }],
+		})
+	})
+})
+
+describe('actions', () => {
+	it('selects shapes outside of the undo history', () => {
+		editor.clearHistory()
+		const result = ai.applyChange({
+			type: 'selectShapes',
+			description: 'select the shape',
+			shapeIds: [shapeId],
+		})
+		expect(result.status).toBe('applied')
+		expect(editor.getSelectedShapeIds()).toEqual([shapeId])
+		expect(editor.getCanUndo()).toBe(false)
+	})
+
+	it('highlights shapes for a duration', () => {
+		vi.useFakeTimers()
+		try {
+			ai.applyChange({
+				type: 'highlightShapes',
+				description: 'point at the shape',
+				shapeIds: [shapeId],
+				duration: 1000,
+			})
+			expect(editor.getHintingShapeIds()).toEqual([shapeId])
+			vi.advanceTimersByTime(1000)
+			expect(editor.getHintingShapeIds()).toEqual([])
+		} finally {
+			vi.useRealTimers()
+		}
+	})
+
+	it('zooms to bounds', () => {
+		const bounds = { x: 1000, y: 1000, w: 100, h: 100 }
+		ai.applyChange({ type: 'zoomToBounds', description: 'look at the corner', bounds })
+		editor.emit('tick', 1000)
+		expect(editor.getViewportPageBounds().center.toJson()).toMatchObject({ x: 1050, y: 1050 })
+	})
+
+	it('fails actions on missing shapes', () => {
+		const result = ai.applyChange({
+			type: 'selectShapes',
+			description: 'select a missing shape',
+			shapeIds: [missingId],
+		})
+		expect(result.status).toBe('failed')
+		expect(editor.getSelectedShapeIds()).toEqual([])
+	})
+
+	it('keeps actions out of the generation', async () => {
+		const generation = await ai.generate('look')
+		await generation.handleChanges([
+			{ type: 'selectShapes', description: 'select', shapeIds: [shapeId] },
+		])
+		generation.cancel('revert')
+		expect(editor.getSelectedShapeIds()).toEqual([shapeId])
+	})
+})
+
+describe('answer mode', () => {
+	it('includes the mode in the prompt', async () => {
+		const { prompt } = await ai.generate({ message: 'what is this?', mode: 'answer' })
+		expect(prompt.mode).toBe('answer')
+	})
+
+	it('skips changes to the canvas, but not actions', async () => {
+		const generation = await ai.generate({ message: 'what is this?', mode: 'answer' })
+		const results = await generation.handleChanges([
+			{ type: 'deleteShape', description: 'delete', shapeId },
+			{ type: 'highlightShapes', description: 'point at it', shapeIds: [shapeId] },
+		])
+		await generation.commit('It is a rectangle.')
+
+		expect(results.map((r) => r.status)).toEqual(['skipped', 'applied'])
+		expect(editor.getShape(shapeId)).toBeDefined()
+		expect(editor.getHintingShapeIds()).toEqual([shapeId])
+	})
+})
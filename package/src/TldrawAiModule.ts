@@ -1,11 +1,182 @@
-import { Box, Editor, FileHelpers, TLShapePartial } from 'tldraw'
-import { TldrawAiTransformConstructor } from './TldrawAiTransform'
-import { TLAiChange, TLAiContent, TLAiMessages, TLAiPrompt } from './types'
-import { asMessage, exhaustiveSwitchError } from './utils'
+import {
+	atom,
+	Box,
+	BoxModel,
+	Editor,
+	FileHelpers,
+	isShapeId,
+	RecordsDiff,
+	TLParentId,
+	TLRecord,
+	TLShape,
+	TLShapeId,
+	TLShapePartial,
+	uniqueId,
+} from 'tldraw'
+import { TldrawAiConversation } from './TldrawAiConversation'
+import { TldrawAiPreview } from './TldrawAiPreview'
+import { TldrawAiTransform, TldrawAiTransformConstructor } from './TldrawAiTransform'
+import {
+	TLAiActionChange,
+	TLAiAssistantMessage,
+	TLAiCancelPolicy,
+	TLAiChange,
+	TLAiChangePolicy,
+	TLAiChangeResult,
+	TLAiConflictPolicy,
+	TLAiContent,
+	TLAiCustomChange,
+	TLAiCustomChanges,
+	TLAiMessages,
+	TLAiPrompt,
+	TLAiPromptMode,
+	TLAiProvenance,
+	TLAiReport,
+} from './types'
+import {
+	asMessage,
+	createEventEmitter,
+	createHistoryBatch,
+	exhaustiveSwitchError,
+	fitContentToBudget,
+	getChangesToFitBounds,
+	isActionChange,
+	isCanvasChange,
+	isRecordsDiffEmpty,
+	withProvenance,
+} from './utils'
+
+/** How long to highlight shapes for, in milliseconds, if an action doesn't say. */
+const DEFAULT_HIGHLIGHT_DURATION = 2000
 
 export interface TldrawAiModuleOptions {
 	editor: Editor
 	transforms?: TldrawAiTransformConstructor[]
+	/**
+	 * Options for the screenshot that is sent with each prompt, or false to never send a screenshot
+	 * (for example, when the model can't accept images).
+	 */
+	image?: TldrawAiImageOptions | false
+	/**
+	 * The approximate number of tokens that the shapes and bindings in each prompt may use. If the
+	 * content would exceed the budget, the selected shapes and the shapes nearest to the prompt bounds
+	 * are included, and the rest are summarized in the content's `clusters`.
+	 */
+	contextBudget?: number
+	/**
+	 * Whether to record the generation that last created or updated each shape in the shape's
+	 * `meta.aiProvenance`. Pass an object to also record the name of the model.
+	 */
+	provenance?: boolean | { model?: string }
+	/**
+	 * Which shapes the AI may not change. Protected shapes are sent to the AI as read-only context,
+	 * and changes that would modify them are skipped. By default, locked shapes and shapes with
+	 * `meta.aiProtected` are protected, along with the shapes inside of them (such as in a frame).
+	 * Set to false to let the AI change any shape.
+	 */
+	protection?: TldrawAiProtectionOptions | false
+	/**
+	 * How to keep the shapes that each generation creates or updates inside of the prompt bounds,
+	 * once the generation is complete: by moving each shape inside on its own (`clamp`), by moving
+	 * the shapes together (`translate`), or by also scaling them down together if they are too large
+	 * to fit (`scale`). By default, shapes are left where the AI put them.
+	 */
+	boundsEnforcement?: 'clamp' | 'translate' | 'scale'
+	/**
+	 * The handlers for the app's custom change types (see `TLAiCustomChanges`), keyed by type.
+	 * Custom changes without a handler fail.
+	 */
+	changeHandlers?: TldrawAiChangeHandlers
+}
+
+/**
+ * A function that handles a custom change, such as by showing a toast. Throw to fail the change.
+ */
+export type TldrawAiChangeHandler<T extends TLAiCustomChange = TLAiCustomChange> = (
+	change: T,
+	editor: Editor
+) => void
+
+/**
+ * The handlers for custom change types, keyed by type.
+ */
+export type TldrawAiChangeHandlers = {
+	[K in keyof TLAiCustomChanges]?: TldrawAiChangeHandler<TLAiCustomChanges[K]>
+}
+
+/**
+ * Options for the shapes that the AI may not change.
+ */
+export interface TldrawAiProtectionOptions {
+	/** Whether locked shapes are protected. Defaults to true. */
+	locked?: boolean
+	/** The key in a shape's `meta` that marks it as protected. Defaults to `aiProtected`. */
+	metaKey?: string
+}
+
+/**
+ * Options for the screenshot that is sent with each prompt.
+ */
+export interface TldrawAiImageOptions {
+	/** The image format. Defaults to `jpeg`. */
+	format?: 'jpeg' | 'png' | 'webp'
+	/** The quality of lossy formats, between 0 and 1 */
+	quality?: number
+	/** The size of the image relative to the canvas, where 1 is one pixel per canvas unit. Defaults to 1. */
+	scale?: number
+	/** The maximum width of the image in pixels. Larger images are scaled down to fit. */
+	maxWidth?: number
+	/** The maximum height of the image in pixels. Larger images are scaled down to fit. */
+	maxHeight?: number
+	/** The padding around the shapes, in canvas units. Defaults to 0. */
+	padding?: number
+	/** Whether to render the shapes in dark mode. Defaults to false. */
+	darkMode?: boolean
+	/** Whether to include the canvas background. Defaults to false. */
+	background?: boolean
+}
+
+/**
+ * The events that a module emits during each generation, and the arguments that their listeners
+ * receive. Every event includes the id of the prompt that the generation is for.
+ */
+export interface TldrawAiModuleEvents {
+	/** A prompt was built and has been through the transforms */
+	promptBuilt: [event: { promptId: string; prompt: TLAiPrompt }]
+	/** A change was received from the AI, before it was transformed */
+	changeReceived: [event: { promptId: string; change: TLAiChange }]
+	/**
+	 * A change was applied (or staged in a preview). Once a stream is finalized, its changes are
+	 * applied again if a transform's `transformChanges` reworked them.
+	 */
+	changeApplied: [event: TldrawAiChangeEvent]
+	/** A change failed to transform or to apply */
+	changeFailed: [
+		event: Omit<TldrawAiChangeEvent, 'transformed'> & {
+			/** The change after the transforms, or undefined if a transform threw */
+			transformed?: TLAiChange
+			reason?: string
+			error?: unknown
+		},
+	]
+	/** A generation was committed, with the changes that were applied */
+	complete: [event: { promptId: string; changes: TLAiChange[]; text?: string }]
+	/** A generation was cancelled */
+	cancelled: [event: { promptId: string; policy: TLAiCancelPolicy }]
+}
+
+/**
+ * A change from a generation, both as it was received and as it was transformed.
+ */
+export interface TldrawAiChangeEvent {
+	promptId: string
+	/**
+	 * The change as it was received from the AI, or null if it was created by a transform's
+	 * `transformChanges`
+	 */
+	change: TLAiChange | null
+	/** The change after the prompt's transforms */
+	transformed: TLAiChange
 }
 
 /**
@@ -14,88 +185,778 @@ export interface TldrawAiModuleOptions {
  * changes generated by the AI.
  */
 export class TldrawAiModule {
-	constructor(public readonly opts = {} as TldrawAiModuleOptions) {}
+	constructor(public opts = {} as TldrawAiModuleOptions) {
+		// Keep track of the order in which shapes were changed, so that recently changed shapes can be
+		// prioritized when the content is over budget
+		this.disposeChangeListener = opts.editor.store.listen(
+			({ changes }) => {
+				for (const record of [
+					...Object.values(changes.added),
+					...Object.values(changes.updated).map(([, to]) => to),
+				]) {
+					if (record.typeName === 'shape') {
+						this.lastChanged.set(record.id, ++this.changeCount)
+					}
+				}
+			},
+			{ scope: 'document' }
+		)
+	}
+
+	private readonly $preview = atom<TldrawAiPreview | null>('preview', null)
+	private readonly lastChanged = new Map<TLShapeId, number>()
+	private readonly disposeChangeListener: () => void
+	private changeCount = 0
+	private readonly events = createEventEmitter<TldrawAiModuleEvents>()
+	// The changes that would undo each committed generation, keyed by its prompt id
+	private readonly inverseChanges = new Map<string, TldrawAiInverseChange[]>()
+
+	/**
+	 * The conversation so far. Its turns are included in every prompt, and each committed generation
+	 * adds a turn for the user's message and for the AI's response.
+	 */
+	readonly conversation = new TldrawAiConversation()
 
-	dispose() {}
+	/**
+	 * Change the module's options. The editor can't be changed. Generations that are already running
+	 * may see some of the new options.
+	 *
+	 * @param opts The new options, which replace the current ones
+	 */
+	setOptions(opts: Omit<TldrawAiModuleOptions, 'editor'>) {
+		this.opts = { ...opts, editor: this.opts.editor }
+	}
+
+	dispose() {
+		this.getPreview()?.reject()
+		this.disposeChangeListener()
+		this.events.clear()
+	}
+
+	/**
+	 * Listen to an event from the module's generations.
+	 *
+	 * @param event The name of the event
+	 * @param listener The function to call when the event is emitted
+	 *
+	 * @returns A function that removes the listener.
+	 */
+	on<K extends keyof TldrawAiModuleEvents>(
+		event: K,
+		listener: (...args: TldrawAiModuleEvents[K]) => void
+	) {
+		return this.events.on(event, listener)
+	}
+
+	/**
+	 * Get the preview that is currently waiting for the user to accept or reject its changes, if any.
+	 */
+	getPreview() {
+		return this.$preview.get()
+	}
 
 	/**
 	 * Creates and prepare a prompt, returning the prompt
-	 * and a function to handle changes.
+	 * and functions to handle changes.
+	 *
+	 * Changes are applied to the editor outside of the undo history until they are committed, at
+	 * which point they become a single history entry. If the prompt's preview flag is set, changes
+	 * will be staged in a preview instead, and committing the generation will leave the preview
+	 * waiting for the user to accept or reject its changes. Any preview that is still pending will
+	 * be rejected.
+	 *
+	 * The prompt is focused on the shapes that are selected, unless other ids are provided in the
+	 * prompt's `selectedShapeIds`. If the prompt has `promptBounds`, the AI is asked to draw inside of
+	 * that region, while the shapes in the rest of the viewport are included as context.
+	 *
+	 * The prompt's `cancelPolicy` decides what happens to the applied changes when the generation is
+	 * cancelled. By default, they are reverted.
+	 *
+	 * If the user changes a shape during the generation that a later change also targets, the
+	 * prompt's `conflictPolicy` decides whether the AI's change is skipped (the default), applied
+	 * anyway, or whether the shapes that the AI has changed are locked until the generation ends.
+	 * Either way, the change's result lists the shapes in its `conflicts`.
+	 *
+	 * If the prompt's `mode` is `answer`, the AI is asked to answer a question about the canvas rather
+	 * than change it, and any changes to the canvas are skipped.
+	 *
+	 * Each generation has a `promptId`, which is included in the events that the module emits while
+	 * building the prompt and handling its changes.
 	 *
 	 * @param prompt The user's message or a configuration for the prompt
 	 */
-	async generate(prompt: string | { message: TLAiMessages; stream?: boolean }) {
-		const { transforms: _transformCtors = [] } = this.opts
-		const transforms = _transformCtors.map((ctor) => new ctor(this.opts.editor))
+	async generate(
+		prompt:
+			| string
+			| {
+					message: TLAiMessages
+					stream?: boolean
+					preview?: boolean
+					selectedShapeIds?: TLShapeId[]
+					promptBounds?: BoxModel
+					cancelPolicy?: TLAiCancelPolicy
+					conflictPolicy?: TLAiConflictPolicy
+					changePolicy?: TLAiChangePolicy
+					mode?: TLAiPromptMode
+			  }
+	) {
+		const { editor, transforms: _transformCtors = [] } = this.opts
+		const {
+			cancelPolicy = 'revert',
+			conflictPolicy = 'user-wins',
+			changePolicy,
+			mode,
+		} = typeof prompt === 'string' ? {} : prompt
+		const transforms = _transformCtors.map((ctor) => new ctor(editor))
+		const promptId = uniqueId()
+
+		// Call a lifecycle hook on every transform. An error in one transform's hook should not stop
+		// the others from running, so errors are logged rather than thrown.
+		const callTransforms = async (fn: (transform: TldrawAiTransform) => unknown) => {
+			for (const transform of transforms) {
+				try {
+					await fn(transform)
+				} catch (e) {
+					console.error('Error in transform lifecycle hook:', e)
+				}
+			}
+		}
 
 		const message = typeof prompt === 'string' ? prompt : prompt.message
-		let _prompt = await this.getPrompt(message)
+		let _prompt: TLAiPrompt
+		let promptBounds: Box
 
-		for (const transform of transforms) {
-			if (transform.transformPrompt) {
-				_prompt = transform.transformPrompt(_prompt)
+		try {
+			await callTransforms((transform) => transform.onStart?.())
+
+			const { selectedShapeIds, promptBounds: bounds } = typeof prompt === 'string' ? {} : prompt
+			_prompt = await this.getPrompt(message, {
+				selectedShapeIds,
+				promptBounds: bounds && Box.From(bounds),
+				changePolicy,
+				mode,
+			})
+			// Transforms may modify the prompt bounds, e.g. to make them relative to the context
+			promptBounds = _prompt.promptBounds.clone()
+
+			for (const transform of transforms) {
+				if (transform.transformPrompt) {
+					_prompt = await transform.transformPrompt(_prompt)
+				}
 			}
+		} catch (e) {
+			await callTransforms((transform) => transform.onError?.(e))
+			await callTransforms((transform) => transform.dispose?.())
+			throw e
 		}
 
+		this.events.emit('promptBuilt', { promptId, prompt: _prompt })
+
 		transforms.reverse()
 
-		const handleChange = (change: TLAiChange) => {
-			for (const transform of transforms) {
-				if (transform.transformChange) {
-					change = transform.transformChange(change)
+		let preview: TldrawAiPreview | null = null
+		if (typeof prompt !== 'string' && prompt.preview) {
+			this.getPreview()?.reject()
+			preview = new TldrawAiPreview(this, (diff) => {
+				this.recordGeneration(promptId, diff)
+				if (this.getPreview() === preview) this.$preview.set(null)
+			})
+			this.$preview.set(preview)
+		}
+
+		const batch = createHistoryBatch(editor)
+		let isSettled = false
+
+		// Whether the generation is applying its own changes, which are not the user's
+		let isApplying = false
+		// The shapes that the user has changed or deleted during the generation
+		const touchedShapeIds = new Set<TLShapeId>()
+		// The shapes that the generation has created or changed, which are locked under the lock policy
+		const lockedShapeIds = new Set<TLShapeId>()
+
+		const { sideEffects } = editor
+		const disposeSideEffects = [
+			sideEffects.registerAfterChangeHandler('shape', (_, next) => {
+				if (!isApplying) touchedShapeIds.add(next.id)
+			}),
+			sideEffects.registerAfterDeleteHandler('shape', (shape) => {
+				if (!isApplying) touchedShapeIds.add(shape.id)
+			}),
+			sideEffects.registerBeforeChangeHandler('shape', (prev, next) => {
+				const isLocked = conflictPolicy === 'lock' && !isApplying && lockedShapeIds.has(prev.id)
+				return isLocked ? prev : next
+			}),
+			sideEffects.registerBeforeDeleteHandler('shape', (shape) => {
+				const isLocked = conflictPolicy === 'lock' && !isApplying && lockedShapeIds.has(shape.id)
+				return isLocked ? false : undefined
+			}),
+		]
+
+		const settle = () => {
+			isSettled = true
+			for (const dispose of disposeSideEffects) dispose()
+		}
+
+		// The changes passed to handleChange (after their transforms), and any that failed to transform
+		const handledChanges: TLAiChange[] = []
+		const transformFailures: TLAiChangeResult[] = []
+
+		// The changes that have been applied (or staged in the preview), for the conversation
+		let appliedChanges: TLAiChange[] = []
+
+		// The changes as they were received, keyed by the changes that their transforms produced
+		const originals = new WeakMap<TLAiChange, TLAiChange>()
+
+		const transformChange = async (
+			change: TLAiChange,
+			// Transforms may modify the change, so keep a copy of it as it was received
+			original = structuredClone(change)
+		): Promise<TLAiChangeResult | TLAiChange> => {
+			this.events.emit('changeReceived', { promptId, change: original })
+			try {
+				for (const transform of transforms) {
+					if (transform.transformChange) {
+						change = await transform.transformChange(change)
+					}
+				}
+				originals.set(change, original)
+				return change
+			} catch (e) {
+				const result: TLAiChangeResult = {
+					status: 'failed',
+					change: original,
+					reason: getErrorMessage(e),
+					error: e,
 				}
+				transformFailures.push(result)
+				this.events.emit('changeFailed', {
+					promptId,
+					change: original,
+					reason: result.reason,
+					error: e,
+				})
+				return result
 			}
-			this.applyChange(change)
 		}
 
-		const handleChanges = (changes: TLAiChange[]) => {
+		const transformChanges = async (changes: TLAiChange[]) => {
 			for (const transform of transforms) {
 				if (transform.transformChanges) {
-					changes = transform.transformChanges(changes)
+					changes = await transform.transformChanges(changes)
+				}
+			}
+			return changes
+		}
+
+		// Record the generation that created or updated each shape, if the module records provenance
+		const stamp = (change: TLAiChange) => {
+			const { provenance } = this.opts
+			if (!provenance) return change
+			const value: TLAiProvenance = {
+				promptId,
+				timestamp: Date.now(),
+				description: change.description,
+			}
+			if (typeof provenance === 'object' && provenance.model) value.model = provenance.model
+			return withProvenance(change, value)
+		}
+
+		/**
+		 * Apply a change, unless the prompt's change policy does not allow it, or it targets a shape
+		 * that the user changed during the generation and the conflict policy lets the user win.
+		 */
+		const applyChange = (change: TLAiChange): TLAiChangeResult => {
+			if (mode === 'answer' && isCanvasChange(change)) {
+				return { status: 'skipped', change, reason: 'The prompt only asks for an answer' }
+			}
+
+			if (changePolicy) {
+				const reason = getDisallowedReason(editor, change, changePolicy)
+				if (reason) return { status: 'skipped', change, reason }
+			}
+
+			const conflicts = getChangeTargetIds(change).filter((id) => touchedShapeIds.has(id))
+			if (conflicts.length && conflictPolicy !== 'ai-wins') {
+				return {
+					status: 'skipped',
+					change,
+					reason: `The user changed ${conflicts.join(', ')} during the generation`,
+					conflicts,
+				}
+			}
+
+			// Custom changes aren't changes to the canvas, so there is nothing to preview
+			const result =
+				preview && isCanvasChange(change) ? preview.add(change) : this.applyChange(change)
+
+			const shapeId = getChangeShapeId(change)
+			if (result.status === 'applied' && shapeId) lockedShapeIds.add(shapeId)
+
+			return conflicts.length ? { ...result, conflicts } : result
+		}
+
+		const applyChanges = (_changes: TLAiChange[]) => {
+			// The results report the changes without their provenance
+			const unstamped = new Map<TLAiChange, TLAiChange>()
+			const changes = _changes.map((change) => {
+				const stamped = stamp(change)
+				unstamped.set(stamped, change)
+				return stamped
+			})
+
+			const results: TLAiChangeResult[] = []
+			if (isSettled) {
+				// The generation may have been cancelled while the changes were being transformed
+				for (const change of changes) {
+					results.push({ status: 'skipped', change, reason: 'The generation has ended' })
+				}
+			} else {
+				isApplying = true
+				try {
+					if (preview) {
+						for (const change of changes) {
+							results.push(applyChange(change))
+						}
+					} else {
+						for (const change of changes) {
+							// Only the changes to the canvas are part of the generation's history entry
+							if (isCanvasChange(change)) {
+								batch.apply(() => results.push(applyChange(change)))
+							} else {
+								results.push(applyChange(change))
+							}
+						}
+					}
+				} finally {
+					isApplying = false
+				}
+			}
+			for (const result of results) {
+				result.change = unstamped.get(result.change) ?? result.change
+				const event = {
+					promptId,
+					change: originals.get(result.change) ?? null,
+					transformed: result.change,
+				}
+				if (result.status === 'applied') {
+					appliedChanges.push(result.change)
+					this.events.emit('changeApplied', event)
+				} else if (result.status === 'failed') {
+					this.events.emit('changeFailed', { ...event, reason: result.reason, error: result.error })
 				}
 			}
+			return results
+		}
+
+		/**
+		 * Bring the shapes that the generation created or updated inside of the prompt bounds,
+		 * according to the module's bounds enforcement mode.
+		 */
+		const enforceBounds = () => {
+			const { boundsEnforcement } = this.opts
+			if (!boundsEnforcement) return
+
+			const ids = new Set<TLShapeId>()
+			for (const change of appliedChanges) {
+				if (change.type === 'createShape' || change.type === 'updateShape') {
+					ids.add(change.shape.id)
+				}
+			}
+			// Shapes inside of other shapes move (and scale) with them
+			const topLevelIds = [...ids].filter(
+				(id) => editor.getShape(id) && !editor.findShapeAncestor(id, (s) => ids.has(s.id))
+			)
+			if (!topLevelIds.length) return
+
+			isApplying = true
+			try {
+				const changes = getChangesToFitBounds(editor, topLevelIds, promptBounds, boundsEnforcement)
+				if (preview) {
+					for (const change of changes) preview.add(change)
+				} else {
+					batch.apply(() => {
+						for (const change of changes) this.applyChange(change)
+					})
+				}
+			} finally {
+				isApplying = false
+			}
+		}
+
+		/**
+		 * Transform a message or reasoning step from the AI, such as to map the ids of the shapes that
+		 * it refers to. Messages that a transform fails on are returned as they were received.
+		 */
+		const handleMessage = async (message: TLAiAssistantMessage) => {
+			try {
+				let transformed = structuredClone(message)
+				for (const transform of transforms) {
+					if (transform.transformMessage) {
+						transformed = await transform.transformMessage(transformed)
+					}
+				}
+				return transformed
+			} catch (e) {
+				console.error('Error transforming message:', e)
+				return message
+			}
+		}
+
+		/**
+		 * Transform and apply a single change, such as a change received from a stream.
+		 */
+		const handleChange = async (change: TLAiChange): Promise<TLAiChangeResult> => {
+			const original = structuredClone(change)
+			const transformed = await transformChange(change, original)
+			if ('status' in transformed) return transformed
+
+			handledChanges.push(transformed)
+			const [result] = applyChanges([transformed])
+			return { ...result, change: original }
+		}
+
+		/**
+		 * Transform and apply a complete set of changes, such as those received from a one-off
+		 * generation. The changes will go through each transform's `transformChanges` before they
+		 * are applied.
+		 */
+		const handleChanges = async (changes: TLAiChange[]): Promise<TLAiChangeResult[]> => {
+			const transformed: TLAiChange[] = []
+			const failures: TLAiChangeResult[] = []
+
+			for (const change of changes) {
+				const result = await transformChange(change)
+				if ('status' in result) {
+					failures.push(result)
+				} else {
+					transformed.push(result)
+				}
+			}
+
+			return [...failures, ...applyChanges(await transformChanges(transformed))]
+		}
+
+		/**
+		 * Run each transform's `transformChanges` over the changes passed to `handleChange` so far, then
+		 * replace the applied changes with the result. Call this once a stream is complete.
+		 *
+		 * @returns The results of handling each change, or null if no transform has `transformChanges`.
+		 */
+		const finalizeChanges = async (): Promise<TLAiChangeResult[] | null> => {
+			if (!transforms.some((transform) => transform.transformChanges)) return null
+
+			const changes = await transformChanges(handledChanges.splice(0))
+			// Custom changes were handled as they arrived, so only the canvas changes are replaced
+			appliedChanges = appliedChanges.filter((change) => !isCanvasChange(change))
+			if (preview) {
+				preview.clear()
+			} else {
+				batch.revert()
+			}
+
+			return [...transformFailures, ...applyChanges(changes.filter(isCanvasChange))]
+		}
+
+		/**
+		 * Commit the applied changes as a single history entry, or leave them in the preview for the
+		 * user to decide on, and add the exchange to the conversation.
+		 *
+		 * @param text Any text that the AI returned alongside its changes, such as its strategy
+		 */
+		const commit = async (text?: string) => {
+			if (isSettled) return
+			enforceBounds()
+			settle()
+
+			if (preview) {
+				preview.complete()
+			} else {
+				this.recordGeneration(promptId, batch.commit('generating_' + uniqueId()))
+			}
+
+			this.conversation.addExchange(asMessage(message), appliedChanges, text)
+			this.events.emit('complete', { promptId, changes: [...appliedChanges], text })
+
+			await callTransforms((transform) => transform.onComplete?.())
+			await callTransforms((transform) => transform.dispose?.())
+		}
+
+		const revert = () => {
+			if (preview) {
+				preview.reject()
+			} else {
+				batch.revert()
+			}
+		}
+
+		/**
+		 * Settle the applied changes because the generation was cancelled. Any changes that are kept
+		 * are committed (or left in the preview) just as if the generation had completed.
+		 *
+		 * @param policy What to do with the applied changes. Defaults to the prompt's cancel policy.
+		 */
+		const cancel = async (policy: TLAiCancelPolicy = cancelPolicy) => {
+			if (isSettled) return
+			settle()
+
+			if (policy === 'revert') {
+				revert()
+			} else {
+				if (policy === 'keep-completed') {
+					// Rebuild from the original state, leaving out the shape that was in progress
+					const changes = getCompletedChanges(appliedChanges).filter(isCanvasChange)
+					if (preview) {
+						preview.clear()
+						for (const change of changes) preview.add(stamp(change))
+					} else {
+						batch.revert()
+						batch.apply(() => {
+							for (const change of changes) this.applyChange(stamp(change))
+						})
+					}
+				}
+
+				enforceBounds()
+				if (preview) {
+					preview.complete()
+				} else {
+					this.recordGeneration(promptId, batch.commit('generating_' + uniqueId()))
+				}
+			}
+
+			this.events.emit('cancelled', { promptId, policy })
+
+			await callTransforms((transform) => transform.onCancel?.())
+			await callTransforms((transform) => transform.dispose?.())
+		}
+
+		/**
+		 * Revert the applied changes because the generation failed.
+		 *
+		 * @param error The error that caused the generation to fail
+		 */
+		const fail = async (error: unknown) => {
+			if (isSettled) return
+			settle()
+
+			revert()
+
+			await callTransforms((transform) => transform.onError?.(error))
+			await callTransforms((transform) => transform.dispose?.())
 		}
 
 		return {
+			promptId,
 			prompt: _prompt,
 			handleChange,
 			handleChanges,
+			handleMessage,
+			finalizeChanges,
+			commit,
+			cancel,
+			fail,
+			preview,
+		}
+	}
+
+	/**
+	 * Undo the changes that a past generation made, even if the user has made other changes since.
+	 * Shapes and bindings that have changed since the generation (or that no longer exist) are left
+	 * as they are, and reported as skipped. The reverted changes are a single history entry.
+	 *
+	 * @param promptId The id of the generation's prompt
+	 *
+	 * @returns A report of the changes that were applied to undo the generation.
+	 */
+	revertGeneration(promptId: string): TLAiReport {
+		const { editor } = this.opts
+		const inverses = this.inverseChanges.get(promptId)
+		if (!inverses) {
+			throw Error(`Generation ${promptId} has not been committed, or has already been reverted`)
+		}
+		this.inverseChanges.delete(promptId)
+
+		const report: TLAiReport = { applied: [], skipped: [], failed: [], conflicts: [] }
+
+		editor.markHistoryStoppingPoint('revert_generation_' + promptId)
+		editor.run(() => {
+			for (const { change, before, after } of inverses) {
+				const id = (after ?? before)!.id
+				const current = editor.store.get(id)
+
+				if (after && !current) {
+					report.skipped.push({ status: 'skipped', change, reason: `${id} no longer exists` })
+					continue
+				}
+				if (after ? !isRecordEqual(current!, after) : current) {
+					report.skipped.push({
+						status: 'skipped',
+						change,
+						reason: `${id} has changed since the generation`,
+					})
+					continue
+				}
+
+				try {
+					if (before) {
+						editor.store.put([before])
+					} else {
+						editor.store.remove([id])
+					}
+					report.applied.push({ status: 'applied', change })
+				} catch (e) {
+					console.error('Error reverting change:', e)
+					report.failed.push({ status: 'failed', change, reason: getErrorMessage(e), error: e })
+				}
+			}
+		})
+
+		return report
+	}
+
+	/**
+	 * Record the changes that would undo a committed generation.
+	 */
+	private recordGeneration(promptId: string, diff: RecordsDiff<TLRecord>) {
+		if (isRecordsDiffEmpty(diff)) return
+		this.inverseChanges.set(promptId, getInverseChanges(diff))
+	}
+
+	/**
+	 * Get whether a shape is protected from changes by the AI, according to the module's protection
+	 * options. Shapes inside of a protected shape are protected, too.
+	 *
+	 * @param shape The shape or its id
+	 */
+	isShapeProtected(shape: TLShape | TLShapeId) {
+		const { editor, protection = {} } = this.opts
+		if (protection === false) return false
+
+		const { locked = true, metaKey = 'aiProtected' } = protection
+		const record = editor.getShape(shape)
+		if (!record) return false
+
+		if (locked && editor.isShapeOrAncestorLocked(record)) return true
+		return !!record.meta[metaKey] || !!editor.findShapeAncestor(record, (s) => !!s.meta[metaKey])
+	}
+
+	/**
+	 * Get the protected shape that a change would modify, if any: a shape that it updates or
+	 * deletes (or that is inside of a shape that it deletes), the parent of a shape that it creates
+	 * or moves, or the shape that a binding is from (e.g. an arrow). Custom changes never modify a
+	 * protected shape.
+	 *
+	 * @param change The change to check
+	 */
+	getProtectedShapeId(change: TLAiChange): TLShapeId | undefined {
+		const { editor } = this.opts
+		if (!isCanvasChange(change)) return undefined
+		let ids: (TLParentId | undefined)[]
+
+		switch (change.type) {
+			case 'createShape':
+				ids = [change.shape.parentId]
+				break
+			case 'updateShape':
+				ids = [change.shape.id, change.shape.parentId]
+				break
+			case 'deleteShape':
+				ids = editor.getShape(change.shapeId)
+					? [...editor.getShapeAndDescendantIds([change.shapeId])]
+					: []
+				break
+			case 'createBinding':
+				ids = [change.binding.fromId]
+				break
+			case 'updateBinding':
+				ids = [editor.getBinding(change.binding.id)?.fromId, change.binding.fromId]
+				break
+			case 'deleteBinding':
+				ids = [editor.getBinding(change.bindingId)?.fromId]
+				break
+			default:
+				exhaustiveSwitchError(change)
 		}
+
+		return ids.find((id): id is TLShapeId => !!id && isShapeId(id) && this.isShapeProtected(id))
 	}
 
 	/**
-	 * Apply a change to the editor.
+	 * Apply a change to the editor. Changes that would modify a protected shape are skipped, actions
+	 * are kept out of the undo history, and custom changes are passed to their handler.
 	 *
 	 * @param change The change to apply
+	 *
+	 * @returns The result of applying the change
 	 */
-	applyChange(change: TLAiChange) {
+	applyChange(change: TLAiChange): TLAiChangeResult {
 		const { editor } = this.opts
 
-		if (editor.isDisposed) return
+		if (editor.isDisposed) {
+			return { status: 'skipped', change, reason: 'The editor has been disposed' }
+		}
+
+		const fail = (reason: string): TLAiChangeResult => ({ status: 'failed', change, reason })
+		const skip = (reason: string): TLAiChangeResult => ({ status: 'skipped', change, reason })
+
+		const protectedId = this.getProtectedShapeId(change)
+		if (protectedId) return skip(`Shape ${protectedId} is protected`)
 
 		try {
+			if (isActionChange(change)) {
+				return this.applyAction(change)
+			}
+
+			if (!isCanvasChange(change)) {
+				const handler = this.opts.changeHandlers?.[change.type] as TldrawAiChangeHandler | undefined
+				if (!handler) return fail(`There is no handler for ${change.type} changes`)
+				handler(change, editor)
+				return { status: 'applied', change }
+			}
+
 			switch (change.type) {
 				case 'createShape': {
+					if (editor.getShape(change.shape.id)) {
+						return fail(`Shape ${change.shape.id} already exists`)
+					}
 					editor.createShape(change.shape)
 					break
 				}
 				case 'updateShape': {
+					if (!editor.getShape(change.shape.id)) {
+						return fail(`Shape ${change.shape.id} does not exist`)
+					}
 					editor.updateShape(change.shape as TLShapePartial)
 					break
 				}
 				case 'deleteShape': {
+					if (!editor.getShape(change.shapeId)) {
+						return skip(`Shape ${change.shapeId} does not exist`)
+					}
 					editor.deleteShape(change.shapeId)
 					break
 				}
 				case 'createBinding': {
+					const { fromId, toId } = change.binding
+					for (const shapeId of [fromId, toId]) {
+						if (!editor.getShape(shapeId)) {
+							return fail(`Bound shape ${shapeId} does not exist`)
+						}
+					}
 					editor.createBinding(change.binding)
 					break
 				}
 				case 'updateBinding': {
+					if (!editor.getBinding(change.binding.id)) {
+						return fail(`Binding ${change.binding.id} does not exist`)
+					}
 					editor.updateBinding(change.binding)
 					break
 				}
 				case 'deleteBinding': {
+					if (!editor.getBinding(change.bindingId)) {
+						return skip(`Binding ${change.bindingId} does not exist`)
+					}
 					editor.deleteBinding(change.bindingId)
 					break
 				}
@@ -104,26 +965,99 @@ export class TldrawAiModule {
 			}
 		} catch (e) {
 			console.error('Error handling change:', e)
+			return { status: 'failed', change, reason: getErrorMessage(e), error: e }
 		}
+
+		return { status: 'applied', change }
+	}
+
+	/**
+	 * Apply an action through the editor's camera and selection APIs, outside of the undo history.
+	 */
+	private applyAction(change: TLAiActionChange): TLAiChangeResult {
+		const { editor } = this.opts
+
+		if (change.type !== 'zoomToBounds') {
+			const missingId = change.shapeIds.find((id) => !editor.getShape(id))
+			if (missingId)
+				return { status: 'failed', change, reason: `Shape ${missingId} does not exist` }
+		}
+
+		editor.run(
+			() => {
+				switch (change.type) {
+					case 'zoomToBounds': {
+						editor.zoomToBounds(Box.From(change.bounds), {
+							animation: { duration: editor.options.animationMediumMs },
+						})
+						break
+					}
+					case 'selectShapes': {
+						editor.setSelectedShapes(change.shapeIds)
+						break
+					}
+					case 'highlightShapes': {
+						editor.setHintingShapes(change.shapeIds)
+						// Clear the highlight later, unless something else has changed it since
+						const hintingShapeIds = editor.getHintingShapeIds()
+						editor.timers.setTimeout(() => {
+							if (editor.getHintingShapeIds() !== hintingShapeIds) return
+							editor.run(() => editor.setHintingShapes([]), { history: 'ignore' })
+						}, change.duration ?? DEFAULT_HIGHLIGHT_DURATION)
+						break
+					}
+					default:
+						exhaustiveSwitchError(change)
+				}
+			},
+			{ history: 'ignore' }
+		)
+
+		return { status: 'applied', change }
 	}
 
 	/**
-	 * Create the prompt to be sent to the AI.
+	 * Create the prompt to be sent to the AI. By default, both the prompt bounds and the context
+	 * bounds are the viewport. If only prompt bounds are provided, the context bounds are the viewport
+	 * expanded to include them.
 	 *
 	 * @param prompt The user's prompt
 	 * @param options Options to generate the input
 	 */
 	async getPrompt(
 		prompt: TLAiMessages,
-		options = {} as Partial<Pick<TLAiPrompt, 'canvasContent' | 'contextBounds' | 'promptBounds'>>
+		options = {} as Partial<
+			Pick<
+				TLAiPrompt,
+				| 'canvasContent'
+				| 'contextBounds'
+				| 'promptBounds'
+				| 'selectedShapeIds'
+				| 'changePolicy'
+				| 'mode'
+			>
+		>
 	): Promise<TLAiPrompt> {
 		const { editor } = this.opts
 		const {
-			contextBounds = editor.getViewportPageBounds(),
 			promptBounds = editor.getViewportPageBounds(),
+			contextBounds = Box.Common([editor.getViewportPageBounds(), promptBounds]),
+			selectedShapeIds = editor.getSelectedShapeIds(),
 		} = options
 
-		const content = options.canvasContent ?? this.getContent(promptBounds)
+		let content = options.canvasContent ?? this.getContent(contextBounds, selectedShapeIds)
+
+		if (this.opts.contextBudget !== undefined) {
+			content = fitContentToBudget(editor, content, {
+				budget: this.opts.contextBudget,
+				promptBounds,
+				selectedShapeIds,
+				getLastChanged: (id) => this.lastChanged.get(id) ?? 0,
+			})
+		}
+
+		// Transforms may modify the prompt, so the conversation's turns are copied
+		const conversation = structuredClone(this.conversation.getTurns())
 
 		// Get image from the content
 		const image = await this.getImage(content)
@@ -133,6 +1067,13 @@ export class TldrawAiModule {
 			canvasContent: content,
 			contextBounds: roundBox(contextBounds),
 			promptBounds: roundBox(promptBounds),
+			selectedShapeIds: [...selectedShapeIds],
+			protectedShapeIds: content.shapes
+				.filter((shape) => this.isShapeProtected(shape.id))
+				.map((shape) => shape.id),
+			conversation,
+			changePolicy: options.changePolicy,
+			mode: options.mode,
 			image,
 		}
 	}
@@ -141,12 +1082,13 @@ export class TldrawAiModule {
 	 * Get the content from the current page.
 	 *
 	 * @param bounds The bounds to get the content for
+	 * @param selectedShapeIds The ids of the selected shapes, which are included even if out of bounds
 	 */
-	private getContent(bounds: Box): TLAiContent {
+	private getContent(bounds: Box, selectedShapeIds: TLShapeId[] = []): TLAiContent {
 		const { editor } = this.opts
 
 		// Get the page content (same as what we put on the clipboard when a user copies) for the shapes
-		// that are included (contained or colliding with) the provided bounds
+		// that are included (contained or colliding with) the provided bounds, and for the selected shapes
 
 		let content: TLAiContent | undefined = {
 			bindings: [],
@@ -155,7 +1097,11 @@ export class TldrawAiModule {
 			...editor.getContentFromCurrentPage(
 				editor
 					.getCurrentPageShapesSorted()
-					.filter((s) => bounds.includes(editor.getShapeMaskedPageBounds(s)!))
+					.filter(
+						(s) =>
+							selectedShapeIds.includes(s.id) ||
+							bounds.includes(editor.getShapeMaskedPageBounds(s)!)
+					)
 			),
 		}
 
@@ -179,24 +1125,239 @@ export class TldrawAiModule {
 	}
 
 	/**
-	 * Get a screenshot (data URL) of the prompt's content
+	 * Get a screenshot (data URL) of the prompt's content, using the module's image options.
 	 *
 	 * @param content The content to get the image from
 	 */
 	private async getImage(content: TLAiContent) {
-		if (!content.shapes.length) return undefined
+		const { editor, image: options = {} } = this.opts
+		if (options === false || !content.shapes.length) return undefined
 
-		const result = await this.opts.editor.toImage(content.shapes, {
-			format: 'jpeg',
-			background: false,
-			darkMode: false,
-			padding: 0, // will the context bounds take into account the padding?
+		const {
+			format = 'jpeg',
+			quality,
+			maxWidth = Infinity,
+			maxHeight = Infinity,
+			padding = 0, // will the context bounds take into account the padding?
+			darkMode = false,
+			background = false,
+		} = options
+		let { scale = 1 } = options
+
+		// Scale the image down so that it fits within the maximum dimensions
+		const shapeBounds = content.shapes.map((shape) => editor.getShapePageBounds(shape))
+		if (shapeBounds.every(Boolean)) {
+			const bounds = Box.Common(shapeBounds as Box[])
+			const width = (bounds.w + padding * 2) * scale
+			const height = (bounds.h + padding * 2) * scale
+			scale *= Math.min(1, maxWidth / width, maxHeight / height)
+		}
+
+		const result = await editor.toImage(content.shapes, {
+			format,
+			quality,
+			scale,
+			pixelRatio: 1,
+			background,
+			darkMode,
+			padding,
 		})
 
 		return await FileHelpers.blobToDataUrl(result.blob)
 	}
 }
 
+/**
+ * A change that undoes part of a generation, along with the record that it restores and the record
+ * as the generation left it.
+ */
+interface TldrawAiInverseChange {
+	change: TLAiChange
+	/** The record before the generation, or null if the generation created it */
+	before: TLRecord | null
+	/** The record after the generation, or null if the generation deleted it */
+	after: TLRecord | null
+}
+
+/**
+ * Get the changes that would undo a diff, in the order that they should be applied: bindings are
+ * removed before their shapes, children are removed before their parents, and parents are restored
+ * before their children.
+ */
+function getInverseChanges(diff: RecordsDiff<TLRecord>): TldrawAiInverseChange[] {
+	const removeBindings: TldrawAiInverseChange[] = []
+	const removeShapes: TldrawAiInverseChange[] = []
+	const restoreShapes: TldrawAiInverseChange[] = []
+	const restoreBindings: TldrawAiInverseChange[] = []
+
+	for (const after of Object.values(diff.added)) {
+		if (after.typeName === 'shape') {
+			removeShapes.push({
+				change: { type: 'deleteShape', description: `Delete ${after.id}`, shapeId: after.id },
+				before: null,
+				after,
+			})
+		} else if (after.typeName === 'binding') {
+			removeBindings.push({
+				change: { type: 'deleteBinding', description: `Delete ${after.id}`, bindingId: after.id },
+				before: null,
+				after,
+			})
+		}
+	}
+
+	for (const [before, after] of Object.values(diff.updated)) {
+		if (before.typeName === 'shape') {
+			restoreShapes.push({
+				change: { type: 'updateShape', description: `Restore ${before.id}`, shape: before },
+				before,
+				after,
+			})
+		} else if (before.typeName === 'binding') {
+			restoreBindings.push({
+				change: { type: 'updateBinding', description: `Restore ${before.id}`, binding: before },
+				before,
+				after,
+			})
+		}
+	}
+
+	for (const before of Object.values(diff.removed)) {
+		if (before.typeName === 'shape') {
+			restoreShapes.push({
+				change: { type: 'createShape', description: `Restore ${before.id}`, shape: before },
+				before,
+				after: null,
+			})
+		} else if (before.typeName === 'binding') {
+			restoreBindings.push({
+				change: { type: 'createBinding', description: `Restore ${before.id}`, binding: before },
+				before,
+				after: null,
+			})
+		}
+	}
+
+	// The depth of a shape within the shapes that the generation created or deleted
+	const shapes = new Map(
+		[...Object.values(diff.added), ...Object.values(diff.removed)].map((r) => [r.id, r])
+	)
+	const getDepth = ({ before, after }: TldrawAiInverseChange) => {
+		let depth = 0
+		let shape = (after ?? before) as TLShape
+		while (shapes.has(shape.parentId)) {
+			shape = shapes.get(shape.parentId) as TLShape
+			depth++
+		}
+		return depth
+	}
+
+	removeShapes.sort((a, b) => getDepth(b) - getDepth(a))
+	restoreShapes.sort((a, b) => getDepth(a) - getDepth(b))
+
+	return [...removeBindings, ...removeShapes, ...restoreShapes, ...restoreBindings]
+}
+
+function isRecordEqual(a: TLRecord, b: TLRecord) {
+	return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Get the changes to the shapes that the AI had finished working on, leaving out the changes to the
+ * shape targeted by the last change to the canvas, which may be incomplete.
+ */
+function getCompletedChanges(changes: TLAiChange[]) {
+	// Actions and custom changes (such as a message between shapes) don't finish the shape in progress
+	const last = changes.findLast(isCanvasChange)
+	if (!last) return []
+	const inProgress = getChangeShapeId(last)
+	if (!inProgress) return changes
+	return changes.filter((change) => getChangeShapeId(change) !== inProgress)
+}
+
+/**
+ * Get the id of the shape that a change creates or builds on, if any. Bindings build on the shape
+ * that they bind from (e.g. an arrow). Deletions are never incomplete, so they have no shape.
+ */
+function getChangeShapeId(change: TLAiChange) {
+	if (!isCanvasChange(change)) return undefined
+	switch (change.type) {
+		case 'createShape':
+		case 'updateShape':
+			return change.shape.id
+		case 'createBinding':
+		case 'updateBinding':
+			return change.binding.fromId
+		case 'deleteShape':
+		case 'deleteBinding':
+			return undefined
+		default:
+			exhaustiveSwitchError(change)
+	}
+}
+
+/**
+ * Get the ids of the existing shapes that a change targets: the shape it updates or deletes, the
+ * shapes that a binding connects, or the parent of a shape that it creates.
+ */
+function getChangeTargetIds(change: TLAiChange): TLShapeId[] {
+	if (!isCanvasChange(change)) return []
+	switch (change.type) {
+		case 'createShape': {
+			const { parentId } = change.shape
+			return parentId && isShapeId(parentId) ? [parentId] : []
+		}
+		case 'updateShape':
+			return [change.shape.id]
+		case 'deleteShape':
+			return [change.shapeId]
+		case 'createBinding':
+			return [change.binding.fromId, change.binding.toId]
+		case 'updateBinding':
+			return [change.binding.fromId, change.binding.toId].filter(
+				(id): id is TLShapeId => id !== undefined
+			)
+		case 'deleteBinding':
+			return []
+		default:
+			exhaustiveSwitchError(change)
+	}
+}
+
+/**
+ * Get why a change is not allowed by a change policy, if it isn't.
+ */
+function getDisallowedReason(editor: Editor, change: TLAiChange, policy: TLAiChangePolicy) {
+	const { changeTypes, shapeTypes } = policy
+	if (changeTypes && !changeTypes.includes(change.type)) {
+		return `The prompt's change policy does not allow ${change.type} changes`
+	}
+
+	if (shapeTypes && isCanvasChange(change)) {
+		let shapeType: string | undefined
+		switch (change.type) {
+			case 'createShape':
+				shapeType = change.shape.type
+				break
+			case 'updateShape':
+				shapeType = change.shape.type ?? editor.getShape(change.shape.id)?.type
+				break
+			case 'deleteShape':
+				shapeType = editor.getShape(change.shapeId)?.type
+				break
+		}
+		if (shapeType && !shapeTypes.includes(shapeType)) {
+			return `The prompt's change policy does not allow changes to ${shapeType} shapes`
+		}
+	}
+
+	return undefined
+}
+
+function getErrorMessage(e: unknown) {
+	return e instanceof Error ? e.message : String(e)
+}
+
 function roundBox(box: Box) {
 	const b = box.clone()
 	b.x = Math.round(b.x)
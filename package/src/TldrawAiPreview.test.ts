@@ -0,0 +1,97 @@
+import { createShapeId, Editor } from 'tldraw'
+import { beforeEach, describe, expect, it } from 'vitest'
+import { createTestEditor } from './test-utils'
+import { TldrawAiModule } from './TldrawAiModule'
+import { TLAiChange } from './types'
+
+let editor: Editor
+let ai: TldrawAiModule
+
+const existingId = createShapeId('existing')
+const createdId = createShapeId('created')
+
+beforeEach(() => {
+	editor = createTestEditor()
+	editor.createShape({ id: existingId, type: 'geo', x: 0, y: 0 })
+	ai = new TldrawAiModule({ editor })
+})
+
+const changes: TLAiChange[] = [
+	{
+		type: 'createShape',
+		description: 'create a shape',
+		shape: { id: createdId, type: 'geo', x: 100, y: 100 },
+	},
+	{
+		type: 'updateShape',
+		description: 'move the existing shape',
+		shape: { id: existingId, type: 'geo', x: 50 },
+	},
+]
+
+async function stage(changesToStage: TLAiChange[]) {
+	const { handleChange, preview } = await ai.generate({ message: 'test', preview: true })
+	for (const change of changesToStage) {
+		await handleChange(change)
+	}
+	preview!.complete()
+	return preview!
+}
+
+describe('TldrawAiPreview', () => {
+	it('stages changes without committing them', async () => {
+		const preview = await stage(changes)
+
+		expect(ai.getPreview()).toBe(preview)
+		expect(editor.getShape(createdId)!.opacity).toBeLessThan(1)
+		expect(editor.getShape(existingId)!.x).toBe(50)
+
+		// Nothing has been recorded in the history yet
+		editor.undo()
+		expect(editor.getShape(createdId)).toBeDefined()
+	})
+
+	it('commits accepted changes as a single history entry', async () => {
+		const preview = await stage(changes)
+		preview.accept()
+
+		expect(ai.getPreview()).toBe(null)
+		expect(editor.getShape(createdId)!.opacity).toBe(1)
+		expect(editor.getShape(existingId)!.x).toBe(50)
+
+		editor.undo()
+		expect(editor.getShape(createdId)).toBeUndefined()
+		expect(editor.getShape(existingId)!.x).toBe(0)
+	})
+
+	it('restores the canvas when rejected', async () => {
+		const before = editor.store.serialize('document')
+		const preview = await stage(changes)
+		preview.reject()
+
+		expect(editor.store.serialize('document')).toEqual(before)
+	})
+
+	it('accepts and rejects individual changes', async () => {
+		const preview = await stage(changes)
+		const [created, updated] = preview.getItems()
+
+		preview.reject([updated.id])
+		expect(editor.getShape(existingId)!.x).toBe(0)
+		expect(preview.getIsSettled()).toBe(false)
+
+		preview.accept([created.id])
+		expect(preview.getIsSettled()).toBe(true)
+		expect(editor.getShape(createdId)!.opacity).toBe(1)
+	})
+
+	it('keeps shapes with pending deletions until they are accepted', async () => {
+		const preview = await stage([
+			{ type: 'deleteShape', description: 'delete the existing shape', shapeId: existingId },
+		])
+
+		expect(editor.getShape(existingId)).toBeDefined()
+		preview.accept()
+		expect(editor.getShape(existingId)).toBeUndefined()
+	})
+})
@@ -0,0 +1,229 @@
+import { atom, Editor, RecordsDiff, TLRecord, uniqueId } from 'tldraw'
+import type { TldrawAiModule } from './TldrawAiModule'
+import { TLAiChange, TLAiChangeResult } from './types'
+import { createHistoryBatch } from './utils'
+
+/** The opacity multiplier for shapes that a pending change would create. */
+const CREATED_SHAPE_OPACITY = 0.5
+
+/** The opacity multiplier for shapes that a pending change would delete. */
+const DELETED_SHAPE_OPACITY = 0.3
+
+/**
+ * A change that is staged in a preview, along with the user's decision about it.
+ */
+export interface TldrawAiPreviewItem {
+	/** A unique id for the item within its preview */
+	id: string
+	/** The change, after it has been through the prompt's transforms */
+	change: TLAiChange
+	/** Whether the user has accepted, rejected, or not yet decided on the change */
+	status: 'pending' | 'accepted' | 'rejected'
+}
+
+/**
+ * A set of changes that have been applied to the editor for review, but not yet committed.
+ *
+ * Pending changes are shown as a visually distinct layer: created shapes are ghosted, shapes that
+ * would be deleted are faded (and struck through by `TldrawAiPreviewOverlay`), and updated shapes
+ * are highlighted by the overlay. None of this is recorded in the undo history. Accepted changes
+ * are committed as a single history entry once every change has been decided; rejecting every
+ * change restores the canvas exactly.
+ */
+export class TldrawAiPreview {
+	constructor(
+		private readonly module: TldrawAiModule,
+		private readonly onSettle?: (diff: RecordsDiff<TLRecord>) => void
+	) {
+		this.batch = createHistoryBatch(module.opts.editor)
+	}
+
+	private readonly batch: ReturnType<typeof createHistoryBatch>
+	private readonly $items = atom<TldrawAiPreviewItem[]>('preview items', [])
+	private readonly $isSettled = atom('preview is settled', false)
+	private isComplete = false
+
+	get editor(): Editor {
+		return this.module.opts.editor
+	}
+
+	/**
+	 * Get the changes in this preview and their status.
+	 */
+	getItems() {
+		return this.$items.get()
+	}
+
+	/**
+	 * Get whether this preview has been committed or discarded.
+	 */
+	getIsSettled() {
+		return this.$isSettled.get()
+	}
+
+	/**
+	 * Stage a change in the preview.
+	 *
+	 * @param change The (already transformed) change to stage
+	 *
+	 * @returns The result of staging the change. Changes that could not be applied are not staged.
+	 */
+	add(change: TLAiChange): TLAiChangeResult {
+		if (this.getIsSettled()) {
+			return { status: 'skipped', change, reason: 'The preview has already been settled' }
+		}
+
+		let result!: TLAiChangeResult
+		this.batch.apply(() => {
+			result = this.applyPendingChange(change)
+		})
+
+		if (result.status === 'applied') {
+			const item: TldrawAiPreviewItem = { id: uniqueId(), change, status: 'pending' }
+			this.$items.update((items) => [...items, item])
+		}
+
+		return result
+	}
+
+	/**
+	 * Remove every change from the preview, restoring the canvas to how it was before the preview.
+	 */
+	clear() {
+		if (this.getIsSettled()) return
+		this.batch.revert()
+		this.$items.set([])
+	}
+
+	/**
+	 * Mark the preview as having received all of its changes. Once complete, the preview will be
+	 * settled as soon as there are no more pending changes.
+	 */
+	complete() {
+		this.isComplete = true
+		this.settleIfDecided()
+	}
+
+	/**
+	 * Accept changes in the preview. If no ids are provided, all pending changes are accepted and
+	 * the preview is settled immediately.
+	 *
+	 * @param ids The ids of the items to accept
+	 */
+	accept(ids?: string[]) {
+		this.decide('accepted', ids)
+	}
+
+	/**
+	 * Reject changes in the preview. If no ids are provided, all pending changes are rejected and
+	 * the preview is settled immediately.
+	 *
+	 * @param ids The ids of the items to reject
+	 */
+	reject(ids?: string[]) {
+		this.decide('rejected', ids)
+	}
+
+	private decide(status: 'accepted' | 'rejected', ids?: string[]) {
+		if (this.getIsSettled()) return
+
+		this.$items.update((items) =>
+			items.map((item) =>
+				item.status === 'pending' && (!ids || ids.includes(item.id)) ? { ...item, status } : item
+			)
+		)
+
+		// Deciding on everything at once means that no further changes should be staged
+		if (!ids) this.isComplete = true
+
+		if (!this.settleIfDecided()) {
+			this.render()
+		}
+	}
+
+	/**
+	 * Restore the canvas to how it was before the preview, then re-apply every change that has not
+	 * been rejected. Later changes may depend on earlier ones (e.g. an update to a created shape), so
+	 * we rebuild from the original state rather than trying to remove individual changes.
+	 */
+	private render() {
+		this.batch.revert()
+		this.batch.apply(() => {
+			for (const { change, status } of this.getItems()) {
+				if (status === 'accepted') {
+					this.module.applyChange(change)
+				} else if (status === 'pending') {
+					this.applyPendingChange(change)
+				}
+			}
+		})
+	}
+
+	private settleIfDecided() {
+		if (!this.isComplete) return false
+		const items = this.getItems()
+		if (items.some((item) => item.status === 'pending')) return false
+
+		// Restore the canvas, then commit only the accepted changes as a single history entry
+		this.batch.revert()
+		this.batch.apply(() => {
+			for (const { change, status } of items) {
+				if (status === 'accepted') {
+					this.module.applyChange(change)
+				}
+			}
+		})
+		const diff = this.batch.commit('ai_preview_' + uniqueId())
+
+		this.$isSettled.set(true)
+		this.onSettle?.(diff)
+		return true
+	}
+
+	private applyPendingChange(change: TLAiChange): TLAiChangeResult {
+		const { editor } = this
+
+		const protectedId = this.module.getProtectedShapeId(change)
+		if (protectedId) {
+			return { status: 'skipped', change, reason: `Shape ${protectedId} is protected` }
+		}
+
+		switch (change.type) {
+			case 'createShape': {
+				const result = this.module.applyChange(change)
+				const shape = editor.getShape(change.shape.id)
+				if (result.status === 'applied' && shape) {
+					editor.updateShape({
+						id: shape.id,
+						type: shape.type,
+						opacity: shape.opacity * CREATED_SHAPE_OPACITY,
+					})
+				}
+				return result
+			}
+			case 'deleteShape': {
+				// Keep the shape on the canvas until the deletion is accepted
+				const shape = editor.getShape(change.shapeId)
+				if (!shape) {
+					return { status: 'skipped', change, reason: `Shape ${change.shapeId} does not exist` }
+				}
+				editor.updateShape({
+					id: shape.id,
+					type: shape.type,
+					opacity: shape.opacity * DELETED_SHAPE_OPACITY,
+				})
+				return { status: 'applied', change }
+			}
+			case 'deleteBinding': {
+				// Keep the binding until the deletion is accepted
+				if (!editor.getBinding(change.bindingId)) {
+					return { status: 'skipped', change, reason: `Binding ${change.bindingId} does not exist` }
+				}
+				return { status: 'applied', change }
+			}
+			default: {
+				return this.module.applyChange(change)
+			}
+		}
+	}
+}
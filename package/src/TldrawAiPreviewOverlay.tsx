@@ -0,0 +1,79 @@
+import { Box, useEditor, useValue } from 'tldraw'
+import { TldrawAiPreview } from './TldrawAiPreview'
+
+/**
+ * Draws the parts of a preview that can't be shown on the shapes themselves: a highlight around
+ * shapes with pending updates, and a strike-through across shapes with pending deletions. Render it
+ * in the editor's `InFrontOfTheCanvas` component.
+ */
+export function TldrawAiPreviewOverlay({ preview }: { preview: TldrawAiPreview | null }) {
+	const editor = useEditor()
+
+	const camera = useValue('camera', () => editor.getCamera(), [editor])
+
+	const { updated, deleted } = useValue(
+		'preview bounds',
+		() => {
+			const updated: Box[] = []
+			const deleted: Box[] = []
+			if (!preview || preview.getIsSettled()) return { updated, deleted }
+
+			for (const { change, status } of preview.getItems()) {
+				if (status !== 'pending') continue
+				if (change.type === 'updateShape') {
+					const bounds = editor.getShapePageBounds(change.shape.id)
+					if (bounds) updated.push(bounds)
+				} else if (change.type === 'deleteShape') {
+					const bounds = editor.getShapePageBounds(change.shapeId)
+					if (bounds) deleted.push(bounds)
+				}
+			}
+
+			return { updated, deleted }
+		},
+		[editor, preview]
+	)
+
+	if (!updated.length && !deleted.length) return null
+
+	return (
+		<svg
+			style={{
+				position: 'absolute',
+				inset: 0,
+				width: '100%',
+				height: '100%',
+				pointerEvents: 'none',
+				overflow: 'visible',
+			}}
+		>
+			<g
+				transform={`scale(${camera.z}) translate(${camera.x}, ${camera.y})`}
+				strokeWidth={2 / camera.z}
+				fill="none"
+			>
+				{updated.map((b, i) => (
+					<rect
+						key={'updated_' + i}
+						x={b.x}
+						y={b.y}
+						width={b.w}
+						height={b.h}
+						stroke="var(--color-selected)"
+						strokeDasharray={`${6 / camera.z} ${4 / camera.z}`}
+					/>
+				))}
+				{deleted.map((b, i) => (
+					<line
+						key={'deleted_' + i}
+						x1={b.minX}
+						y1={b.midY}
+						x2={b.maxX}
+						y2={b.midY}
+						stroke="var(--color-warn)"
+					/>
+				))}
+			</g>
+		</svg>
+	)
+}
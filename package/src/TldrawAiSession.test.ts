@@ -0,0 +1,497 @@
+import { createShapeId, Editor, TLShapeId } from 'tldraw'
+import { beforeEach, describe, expect, it } from 'vitest'
+import { TldrawAiBusyError, TldrawAiSession, TldrawAiStatus } from './TldrawAiSession'
+import { TldrawAiTransform } from './TldrawAiTransform'
+import { createTestEditor } from './test-utils'
+import { TLAiAssistantMessage, TLAiChange, TLAiPrompt } from './types'
+import { asMessage } from './utils'
+
+let editor: Editor
+
+const shapeId = createShapeId('shape')
+
+const createChange: TLAiChange = {
+	type: 'createShape',
+	description: 'create a shape',
+	shape: { id: shapeId, type: 'geo', x: 0, y: 0 },
+}
+
+beforeEach(() => {
+	editor = createTestEditor()
+})
+
+/** A generate function that resolves with the given changes once `release` is called. */
+function createDeferredGenerate(changes: TLAiChange[]) {
+	const releases: (() => void)[] = []
+	return {
+		generate: () => new Promise<TLAiChange[]>((resolve) => releases.push(() => resolve(changes))),
+		release: () => releases.shift()?.(),
+	}
+}
+
+/** Get the text of a prompt's message. */
+function getText(prompt: TLAiPrompt) {
+	return asMessage(prompt.message)
+		.map((message) => (message.type === 'text' ? message.text : ''))
+		.join('')
+}
+
+/** A stream function that yields the given changes, then waits until it is aborted. */
+function createHangingStream(changes: TLAiChange[]) {
+	return async function* ({ signal }: { signal: AbortSignal }) {
+		yield* changes
+		await new Promise((_, reject) =>
+			signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')))
+		)
+	}
+}
+
+/** Wait for the session's pending promises to run. */
+function flush() {
+	return new Promise((resolve) => setTimeout(resolve, 0))
+}
+
+describe('prompt', () => {
+	it('applies the generated changes and reports them', async () => {
+		const session = new TldrawAiSession({ editor, generate: async () => [createChange] })
+		const report = await session.prompt('create a shape').promise
+
+		expect(report.applied).toHaveLength(1)
+		expect(editor.getShape(shapeId)).toBeDefined()
+		expect(session.getStatus()).toMatchObject({ state: 'idle', received: 1, applied: 1 })
+	})
+
+	it('adds the exchange to the conversation', async () => {
+		const session = new TldrawAiSession({
+			editor,
+			generate: async () => ({ changes: [createChange], text: 'A shape' }),
+		})
+		await session.prompt('create a shape').promise
+
+		expect(session.conversation.getTurns()).toHaveLength(2)
+	})
+
+	it('rejects when there is no function for the kind of prompt', async () => {
+		const session = new TldrawAiSession({ editor, generate: async () => [] })
+		await expect(session.prompt({ message: 'stream', stream: true }).promise).rejects.toThrow(
+			'Stream function not found'
+		)
+		expect(session.getStatus().error).toBeInstanceOf(Error)
+	})
+
+	it('keeps the conversation when its options change', async () => {
+		const session = new TldrawAiSession({ editor, generate: async () => [] })
+		await session.prompt('first').promise
+
+		session.setOptions({ generate: async () => [createChange] })
+		const report = await session.prompt('second').promise
+
+		expect(report.applied).toHaveLength(1)
+		expect(session.conversation.getTurns()).toHaveLength(4)
+		expect(session.editor).toBe(editor)
+	})
+
+	it('repeats the previous prompt and changes', async () => {
+		const session = new TldrawAiSession({ editor, generate: async () => [createChange] })
+		await session.prompt('create a shape').promise
+		editor.deleteShape(shapeId)
+
+		const report = await session.repeat().promise
+		expect(report.applied).toHaveLength(1)
+		expect(editor.getShape(shapeId)).toBeDefined()
+	})
+})
+
+describe('repeat', () => {
+	it('rejects when the prompt cannot be built, and runs the next prompt', async () => {
+		let shouldFail = false
+		class FailingTransform extends TldrawAiTransform {
+			override transformPrompt = (prompt: TLAiPrompt) => {
+				if (shouldFail) throw new Error('Bad prompt')
+				return prompt
+			}
+		}
+		const session = new TldrawAiSession({
+			editor,
+			generate: async () => [createChange],
+			transforms: [FailingTransform],
+		})
+		await session.prompt('create a shape').promise
+
+		shouldFail = true
+		await expect(session.repeat().promise).rejects.toThrow('Bad prompt')
+		expect(session.getStatus()).toMatchObject({ state: 'idle', error: expect.any(Error) })
+
+		shouldFail = false
+		await expect(session.prompt('next').promise).resolves.toBeDefined()
+	})
+
+	it('does not remember prompts that failed or were cancelled', async () => {
+		let calls = 0
+		const session = new TldrawAiSession({
+			editor,
+			generate: async () => {
+				if (calls++ > 0) throw new Error('Network error')
+				return [createChange]
+			},
+		})
+		await session.prompt('create a shape').promise
+		await session.prompt('fail').promise
+		const { promise, cancel } = session.prompt('cancel')
+		cancel()
+		await promise
+		editor.deleteShape(shapeId)
+
+		const report = await session.repeat().promise
+		expect(report.applied).toHaveLength(1)
+		expect(editor.getShape(shapeId)).toBeDefined()
+	})
+})
+
+describe('events', () => {
+	it('emits start, status and complete events', async () => {
+		const session = new TldrawAiSession({ editor, generate: async () => [createChange] })
+		const events: string[] = []
+		const states: TldrawAiStatus['state'][] = []
+		session.on('start', (prompt) => events.push('start:' + getText(prompt)))
+		session.on('status', (status) => states.push(status.state))
+		session.on('complete', (report) => events.push('complete:' + report.applied.length))
+
+		await session.prompt('create a shape').promise
+
+		expect(events).toEqual(['start:create a shape', 'complete:1'])
+		expect(states).toEqual(['building-prompt', 'waiting', 'applying', 'idle'])
+	})
+
+	it('emits cancel rather than complete when a prompt is cancelled', async () => {
+		const { generate, release } = createDeferredGenerate([createChange])
+		const session = new TldrawAiSession({ editor, generate })
+		const events: string[] = []
+		session.on('complete', () => events.push('complete'))
+		session.on('cancel', () => events.push('cancel'))
+
+		const { promise, cancel } = session.prompt('create a shape')
+		await flush()
+		cancel()
+		release()
+		await promise
+
+		expect(events).toEqual(['cancel'])
+		expect(editor.getShape(shapeId)).toBeUndefined()
+	})
+
+	it('stops calling a listener once it is removed', async () => {
+		const session = new TldrawAiSession({ editor, generate: async () => [] })
+		const reports: unknown[] = []
+		const unsubscribe = session.on('complete', (report) => reports.push(report))
+
+		await session.prompt('first').promise
+		unsubscribe()
+		await session.prompt('second').promise
+
+		expect(reports).toHaveLength(1)
+	})
+})
+
+describe('concurrency', () => {
+	it('queues prompts by default', async () => {
+		const { generate, release } = createDeferredGenerate([])
+		const session = new TldrawAiSession({ editor, generate })
+		const messages: string[] = []
+		session.on('start', (prompt) => messages.push(getText(prompt)))
+
+		const first = session.prompt('first')
+		const second = session.prompt('second')
+		await flush()
+		expect(messages).toEqual(['first'])
+
+		release()
+		await first.promise
+		await flush()
+		expect(messages).toEqual(['first', 'second'])
+
+		release()
+		await second.promise
+	})
+
+	it('rejects prompts while another is running', async () => {
+		const { generate, release } = createDeferredGenerate([])
+		const session = new TldrawAiSession({ editor, generate, concurrency: 'reject' })
+
+		const first = session.prompt('first')
+		await expect(session.prompt('second').promise).rejects.toBeInstanceOf(TldrawAiBusyError)
+
+		release()
+		await first.promise
+	})
+
+	it('cancels the running prompt when superseded', async () => {
+		const { generate, release } = createDeferredGenerate([createChange])
+		const session = new TldrawAiSession({ editor, generate, concurrency: 'supersede' })
+		let cancelled = 0
+		session.on('cancel', () => cancelled++)
+
+		const first = session.prompt('first')
+		await flush()
+		const second = session.prompt('second')
+		release()
+		await first.promise
+		await flush()
+		release()
+		const report = await second.promise
+
+		expect(cancelled).toBe(1)
+		expect(report.applied).toHaveLength(1)
+	})
+})
+
+describe('errors', () => {
+	it('rejects when the stream throws, and runs the next prompt', async () => {
+		const session = new TldrawAiSession({
+			editor,
+			generate: async () => [],
+			stream: async function* () {
+				yield createChange
+				throw new Error('Network error')
+			},
+		})
+		const errors: unknown[] = []
+		session.on('error', (error) => errors.push(error))
+
+		const first = session.prompt({ message: 'create a shape', stream: true })
+		const second = session.prompt('next')
+
+		await expect(first.promise).rejects.toThrow('Network error')
+		expect(errors).toHaveLength(1)
+		await expect(second.promise).resolves.toBeDefined()
+		expect(session.getStatus()).toMatchObject({ state: 'idle', error: null })
+	})
+
+	it('reverts the streamed changes and unlocks their shapes when the stream throws', async () => {
+		const session = new TldrawAiSession({
+			editor,
+			stream: async function* () {
+				yield createChange
+				throw new Error('Network error')
+			},
+		})
+		const { promise } = session.prompt({
+			message: 'create a shape',
+			stream: true,
+			conflictPolicy: 'lock',
+		})
+		await expect(promise).rejects.toThrow('Network error')
+		expect(editor.getShape(shapeId)).toBeUndefined()
+
+		// The user may change the shape that the failed generation had locked
+		editor.createShape({ id: shapeId, type: 'geo', x: 0, y: 0 })
+		editor.updateShape({ id: shapeId, type: 'geo', x: 100 })
+		expect(editor.getShape(shapeId)!.x).toBe(100)
+	})
+
+	it('resolves when a stream is cancelled, even if the stream throws', async () => {
+		const session = new TldrawAiSession({
+			editor,
+			stream: createHangingStream([createChange]),
+		})
+		const events: string[] = []
+		session.on('cancel', () => events.push('cancel'))
+		session.on('error', () => events.push('error'))
+
+		const { promise, cancel } = session.prompt({ message: 'create a shape', stream: true })
+		await flush()
+		expect(editor.getShape(shapeId)).toBeDefined()
+		cancel()
+
+		await expect(promise).resolves.toBeDefined()
+		expect(events).toEqual(['cancel'])
+		expect(editor.getShape(shapeId)).toBeUndefined()
+		expect(session.getStatus().state).toBe('idle')
+	})
+
+	it('settles the generation when a prompt is cancelled while it is being built', async () => {
+		const calls: string[] = []
+		let release = () => {}
+		class SlowTransform extends TldrawAiTransform {
+			override onStart = () => {
+				calls.push('start')
+				return new Promise<void>((resolve) => (release = resolve))
+			}
+			override onCancel = () => void calls.push('cancel')
+			override dispose = () => void calls.push('dispose')
+		}
+		const session = new TldrawAiSession({
+			editor,
+			generate: async () => [createChange],
+			transforms: [SlowTransform],
+		})
+
+		const { promise, cancel } = session.prompt('create a shape')
+		await flush()
+		cancel()
+		release()
+		await promise
+
+		expect(calls).toEqual(['start', 'cancel', 'dispose'])
+		expect(editor.getShape(shapeId)).toBeUndefined()
+	})
+
+	it('runs the superseding prompt once a stream is cancelled', async () => {
+		const session = new TldrawAiSession({
+			editor,
+			generate: async () => [createChange],
+			stream: createHangingStream([]),
+			concurrency: 'supersede',
+		})
+		const first = session.prompt({ message: 'wait', stream: true })
+		await flush()
+		const second = session.prompt('create a shape')
+
+		await first.promise
+		const report = await second.promise
+		expect(report.applied).toHaveLength(1)
+	})
+
+	it('stops reading a stream that ignores the signal once it is superseded', async () => {
+		const session = new TldrawAiSession({
+			editor,
+			generate: async () => [createChange],
+			stream: async function* () {
+				yield { type: 'message', text: 'Thinking…' }
+				await new Promise(() => {})
+			},
+			concurrency: 'supersede',
+		})
+		const first = session.prompt({ message: 'wait', stream: true })
+		await flush()
+		const second = session.prompt('create a shape')
+
+		await first.promise
+		const report = await second.promise
+		expect(report.applied).toHaveLength(1)
+	})
+
+	it('stops waiting for a generate function that ignores the signal once it is cancelled', async () => {
+		const session = new TldrawAiSession({ editor, generate: () => new Promise(() => {}) })
+		const { promise, cancel } = session.prompt('wait')
+		await flush()
+		cancel()
+
+		await expect(promise).resolves.toBeDefined()
+		expect(session.getStatus().state).toBe('idle')
+	})
+
+	it('reports a rejected generate function, and runs the next prompt', async () => {
+		let calls = 0
+		const session = new TldrawAiSession({
+			editor,
+			generate: async () => {
+				if (calls++ === 0) throw new Error('Network error')
+				return [createChange]
+			},
+		})
+		const errors: unknown[] = []
+		session.on('error', (error) => errors.push(error))
+
+		const first = session.prompt('first')
+		const second = session.prompt('second')
+
+		await first.promise
+		expect(errors).toHaveLength(1)
+		const report = await second.promise
+		expect(report.applied).toHaveLength(1)
+	})
+})
+
+describe('transcript', () => {
+	it('records the prompt, the messages and the changes', async () => {
+		const session = new TldrawAiSession({
+			editor,
+			generate: async () => ({
+				changes: [createChange],
+				messages: [
+					{ type: 'message', text: 'I will draw a shape.' },
+					{ type: 'reasoning', text: 'A rectangle will do.' },
+				],
+			}),
+		})
+		const messages: string[] = []
+		session.on('message', (message) => messages.push(message.text))
+		await session.prompt('create a shape').promise
+
+		expect(session.getTranscript().map((entry) => entry.type)).toEqual([
+			'prompt',
+			'message',
+			'reasoning',
+			'changes',
+		])
+		expect(messages).toEqual(['I will draw a shape.', 'A rectangle will do.'])
+		// Only the messages are sent back to the AI in the conversation
+		expect(session.conversation.getTurns()[1]).toMatchObject({ text: 'I will draw a shape.' })
+	})
+
+	it('records the text of a result as a message', async () => {
+		const session = new TldrawAiSession({
+			editor,
+			generate: async () => ({ changes: [], text: 'Nothing to do.' }),
+		})
+		await session.prompt('do nothing').promise
+
+		expect(session.getTranscript()[1]).toMatchObject({ type: 'message', text: 'Nothing to do.' })
+	})
+
+	it('adds an answer to the conversation, rather than the text of the result', async () => {
+		const session = new TldrawAiSession({
+			editor,
+			generate: async () => ({
+				changes: [],
+				text: 'I will look at the canvas.',
+				messages: [{ type: 'message', text: 'There is one box.' }],
+			}),
+		})
+		await session.prompt({ message: 'what is this?', mode: 'answer' }).promise
+
+		expect(session.conversation.getTurns()[1]).toMatchObject({ text: 'There is one box.' })
+	})
+
+	it('transforms the messages', async () => {
+		class MapIds extends TldrawAiTransform {
+			override transformMessage = (message: TLAiAssistantMessage) => ({
+				...message,
+				shapeIds: message.shapeIds?.map((id) => createShapeId(id)),
+			})
+		}
+		const session = new TldrawAiSession({
+			editor,
+			transforms: [MapIds],
+			generate: async () => ({
+				changes: [],
+				messages: [{ type: 'message', text: 'It is a box.', shapeIds: ['box' as TLShapeId] }],
+			}),
+		})
+		await session.prompt({ message: 'what is this?', mode: 'answer' }).promise
+
+		expect(session.getTranscript()[1]).toMatchObject({ shapeIds: [createShapeId('box')] })
+	})
+
+	it('receives messages in between streamed changes', async () => {
+		const session = new TldrawAiSession({
+			editor,
+			stream: async function* () {
+				yield { type: 'reasoning', text: 'First, a shape.' }
+				yield createChange
+				yield { type: 'message', text: 'Done!' }
+			},
+		})
+		const report = await session.prompt({ message: 'create a shape', stream: true }).promise
+
+		expect(report.applied).toHaveLength(1)
+		expect(session.getStatus().received).toBe(1)
+		expect(session.getTranscript().map((entry) => entry.type)).toEqual([
+			'prompt',
+			'reasoning',
+			'message',
+			'changes',
+		])
+	})
+})
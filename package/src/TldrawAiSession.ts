@@ -0,0 +1,628 @@
+import { atom, BoxModel, Editor } from 'tldraw'
+import { TldrawAiModule, TldrawAiModuleOptions } from './TldrawAiModule'
+import {
+	TLAiAssistantMessage,
+	TLAiCancelPolicy,
+	TLAiChange,
+	TLAiChangePolicy,
+	TLAiChangeResult,
+	TLAiConflictPolicy,
+	TLAiMessage,
+	TLAiPrompt,
+	TLAiPromptMode,
+	TLAiReport,
+	TLAiResult,
+	TLAiSerializedPrompt,
+	TLAiStreamItem,
+} from './types'
+import { asMessage, createEventEmitter, isAssistantMessage } from './utils'
+
+/**
+ * The function signature for generating changes from an AI prompt. It may resolve with just the
+ * changes, or with a result that also includes the AI's text for the conversation.
+ */
+export type TldrawAiGenerateFn = (opts: {
+	editor: Editor
+	prompt: TLAiSerializedPrompt
+	signal: AbortSignal
+}) => Promise<TLAiChange[] | TLAiResult>
+
+/**
+ * The function signature for streaming changes from an AI prompt. The stream may also include the
+ * AI's messages and reasoning steps, in between its changes.
+ */
+export type TldrawAiStreamFn = (opts: {
+	editor: Editor
+	prompt: TLAiSerializedPrompt
+	signal: AbortSignal
+}) => AsyncGenerator<TLAiStreamItem>
+
+export interface TldrawAiSessionOptions extends TldrawAiModuleOptions {
+	generate?: TldrawAiGenerateFn
+	stream?: TldrawAiStreamFn
+	/**
+	 * What to do when a prompt is made while another is still running. Prompts never run at the same
+	 * time: a new prompt can wait for the running prompts to finish (`queue`, the default), cancel them
+	 * (`supersede`), or be rejected with a `TldrawAiBusyError` (`reject`).
+	 */
+	concurrency?: 'queue' | 'supersede' | 'reject'
+}
+
+/**
+ * The error for a prompt that was rejected because another prompt was still running.
+ */
+export class TldrawAiBusyError extends Error {
+	override name = 'TldrawAiBusyError'
+
+	constructor() {
+		super('Another prompt is still running.')
+	}
+}
+
+export type TldrawAiPromptOptions =
+	| string
+	| {
+			message: TLAiPrompt['message']
+			stream?: boolean
+			preview?: boolean
+			selectedShapeIds?: TLAiPrompt['selectedShapeIds']
+			promptBounds?: BoxModel
+			cancelPolicy?: TLAiCancelPolicy
+			conflictPolicy?: TLAiConflictPolicy
+			changePolicy?: TLAiChangePolicy
+			mode?: TLAiPromptMode
+	  }
+
+/**
+ * The progress of the current generation, or of the most recent one if none is running.
+ */
+export interface TldrawAiStatus {
+	/**
+	 * What the generation is doing: building the prompt, waiting for the AI's response, streaming
+	 * changes from the AI, or applying changes to the canvas.
+	 */
+	state: 'idle' | 'building-prompt' | 'waiting' | 'streaming' | 'applying'
+	/** The number of changes received from the AI */
+	received: number
+	/** The number of changes that were applied (or staged in a preview) */
+	applied: number
+	/** The error that ended the generation, if any */
+	error: unknown
+	/** When the generation started, in milliseconds since the epoch */
+	startedAt: number | null
+	/** When the first change was received */
+	firstChangeAt: number | null
+	/** When the generation ended */
+	endedAt: number | null
+}
+
+/** @internal */
+export const IDLE_STATUS: TldrawAiStatus = {
+	state: 'idle',
+	received: 0,
+	applied: 0,
+	error: null,
+	startedAt: null,
+	firstChangeAt: null,
+	endedAt: null,
+}
+
+/**
+ * An entry in a session's transcript: a prompt from the user, a message or reasoning step from the
+ * AI, or the changes that the AI made in response to a prompt.
+ */
+export type TldrawAiTranscriptEntry =
+	| { type: 'prompt'; promptId: string; message: TLAiMessage[] }
+	| (TLAiAssistantMessage & { promptId: string })
+	| { type: 'changes'; promptId: string; changes: TLAiChange[] }
+
+/**
+ * The events that a session emits, and the arguments that their listeners receive.
+ */
+export interface TldrawAiSessionEvents {
+	/** A prompt was built and is about to be sent to the AI */
+	start: [prompt: TLAiPrompt]
+	/** The status of the current generation changed */
+	status: [status: TldrawAiStatus]
+	/** The AI sent a message or a reasoning step */
+	message: [message: TLAiAssistantMessage]
+	/** A prompt finished, with a report of the changes it made */
+	complete: [report: TLAiReport]
+	/** A prompt was cancelled */
+	cancel: []
+	/** A prompt failed */
+	error: [error: unknown]
+}
+
+/**
+ * Runs prompts against an AI and applies the changes it makes to the editor. The session serializes
+ * each prompt, sends it to the `generate` or `stream` function, keeps prompts from running at the
+ * same time, tracks the status of the current generation, and remembers the previous prompt so that
+ * it can be repeated.
+ *
+ * The session does not depend on React; `useTldrawAi` is a thin wrapper around it.
+ */
+export class TldrawAiSession {
+	constructor(public opts: TldrawAiSessionOptions) {
+		this.module = new TldrawAiModule(opts)
+	}
+
+	/** The module that builds prompts and applies changes for this session */
+	readonly module: TldrawAiModule
+
+	private readonly $status = atom('ai status', IDLE_STATUS)
+	private readonly $transcript = atom<TldrawAiTranscriptEntry[]>('ai transcript', [])
+	private readonly events = createEventEmitter<TldrawAiSessionEvents>()
+
+	// The cancel functions of the prompts that are running or queued
+	private readonly cancelFunctions = new Set<() => void>()
+	// A promise that settles once every prompt made so far has settled
+	private queue: Promise<unknown> = Promise.resolve()
+
+	private previousArguments: TldrawAiPromptOptions = ''
+	private previousChanges: TLAiChange[] = []
+
+	get editor(): Editor {
+		return this.opts.editor
+	}
+
+	/**
+	 * The conversation so far, which is sent along with each prompt.
+	 */
+	get conversation() {
+		return this.module.conversation
+	}
+
+	/**
+	 * Get the progress of the current generation, or of the most recent one if none is running.
+	 */
+	getStatus() {
+		return this.$status.get()
+	}
+
+	/**
+	 * Get the transcript of the session's prompts, the AI's messages and reasoning, and the changes
+	 * that it made, oldest first.
+	 */
+	getTranscript() {
+		return this.$transcript.get()
+	}
+
+	/**
+	 * Remove every entry from the transcript. The conversation that is sent to the AI is separate,
+	 * and can be cleared with `conversation.clear()`.
+	 */
+	clearTranscript() {
+		this.$transcript.set([])
+	}
+
+	private addToTranscript(entry: TldrawAiTranscriptEntry) {
+		this.$transcript.update((entries) => [...entries, entry])
+	}
+
+	/**
+	 * Get the preview that is waiting to be accepted or rejected, if any.
+	 */
+	getPreview() {
+		return this.module.getPreview()
+	}
+
+	/**
+	 * Listen to an event from the session.
+	 *
+	 * @param event The name of the event
+	 * @param listener The function to call when the event is emitted
+	 *
+	 * @returns A function that removes the listener.
+	 */
+	on<K extends keyof TldrawAiSessionEvents>(
+		event: K,
+		listener: (...args: TldrawAiSessionEvents[K]) => void
+	) {
+		return this.events.on(event, listener)
+	}
+
+	private emit<K extends keyof TldrawAiSessionEvents>(event: K, ...args: TldrawAiSessionEvents[K]) {
+		this.events.emit(event, ...args)
+	}
+
+	private setStatus(status: TldrawAiStatus) {
+		this.$status.set(status)
+		this.emit('status', status)
+	}
+
+	/**
+	 * Prompt the AI for a response. If the stream flag is set to true, the call will stream changes as they are ready.
+	 * If the preview flag is set to true, the changes will be staged in a preview for the user to accept or reject.
+	 * The cancel policy decides whether cancelling reverts the changes so far (the default) or keeps them.
+	 * If another prompt is running, the prompt is queued, supersedes it, or is rejected, depending on the
+	 * session's concurrency policy.
+	 *
+	 * @param message The message to prompt the AI with OR an object with the message and stream / preview flags.
+	 *
+	 * @returns An object with a promise that will resolve with a report of the applied changes once they have all been handled, and a cancel function to abort the work.
+	 */
+	prompt(message: TldrawAiPromptOptions) {
+		const { editor, module: ai } = this
+		const { generate: generateFn, stream: streamFn } = this.opts
+
+		let cancelled = false
+		let started = false
+		const controller = new AbortController()
+		const signal = controller.signal
+
+		// Pull out options, keeping in mind that the argument may be just a string
+		const opts = typeof message === 'string' ? { message } : message
+		const { stream = false } = opts
+
+		let report = createReport()
+		let cancelGeneration: (() => Promise<void>) | null = null
+
+		const updateStatus = (status: Partial<TldrawAiStatus>) => {
+			// Once cancelled, the generation's status is final
+			if (!cancelled) this.setStatus({ ...this.getStatus(), ...status })
+		}
+
+		const receiveChanges = (count: number, state: TldrawAiStatus['state']) => {
+			const prev = this.getStatus()
+			updateStatus({
+				state,
+				received: prev.received + count,
+				firstChangeAt: prev.firstChangeAt ?? Date.now(),
+			})
+		}
+
+		const end = (error: unknown = null) => {
+			updateStatus({
+				state: 'idle',
+				applied: report.applied.length,
+				error,
+				endedAt: Date.now(),
+			})
+		}
+
+		const fail = (error: unknown) => {
+			if (cancelled) return
+			end(error)
+			this.emit('error', error)
+		}
+
+		const run = async (): Promise<TLAiReport> => {
+			// The prompt may have been cancelled while it was queued
+			if (cancelled) return report
+
+			started = true
+			this.setStatus({ ...IDLE_STATUS, state: 'building-prompt', startedAt: Date.now() })
+
+			if (stream ? !streamFn : !generateFn) {
+				const error = stream
+					? Error(`Stream function not found. You should pass a stream method to the session.`)
+					: Error(`Generate function not found. You should pass a generate method to the session.`)
+				fail(error)
+				throw error
+			}
+
+			let generation: Awaited<ReturnType<typeof ai.generate>>
+			try {
+				generation = await ai.generate(message)
+			} catch (e) {
+				fail(e)
+				throw e
+			}
+			// The prompt may have been cancelled while it was being built
+			if (cancelled) {
+				await generation.cancel()
+				return report
+			}
+			const { prompt, promptId } = generation
+			cancelGeneration = generation.cancel
+			this.addToTranscript({ type: 'prompt', promptId, message: asMessage(opts.message) })
+			this.emit('start', prompt)
+			updateStatus({ state: 'waiting' })
+
+			// The messages and reasoning steps that the AI sent alongside its changes
+			const messages: TLAiAssistantMessage[] = []
+			const receiveMessage = async (received: TLAiAssistantMessage) => {
+				if (cancelled) return
+				const message = await generation.handleMessage(received)
+				messages.push(message)
+				this.addToTranscript({ ...message, promptId })
+				this.emit('message', message)
+			}
+
+			const serializedPrompt: TLAiSerializedPrompt = {
+				...prompt,
+				promptBounds: prompt.promptBounds.toJson(),
+				contextBounds: prompt.contextBounds.toJson(),
+			}
+
+			const pendingChanges: TLAiChange[] = []
+
+			// An error from the generate function, which doesn't reject the prompt
+			let requestError: unknown = null
+
+			try {
+				if (stream) {
+					// Handle a stream of changes. Each change is applied as soon as it arrives, but outside
+					// of the undo history; once the stream completes, the changes are replaced with a single
+					// history entry so that the whole generation can be undone at once.
+					// Stop reading the stream once cancelled, even if it ignores the signal, so that the next
+					// prompt can run
+					for await (const change of abortable(
+						streamFn!({ editor, prompt: serializedPrompt, signal }),
+						signal
+					)) {
+						if (isAssistantMessage(change)) {
+							await receiveMessage(change)
+						} else if (!cancelled) {
+							receiveChanges(1, 'streaming')
+							addToReport(report, await generation.handleChange(change))
+							pendingChanges.push(change)
+							updateStatus({ applied: report.applied.length })
+						}
+					}
+
+					if (!cancelled) {
+						updateStatus({ state: 'applying' })
+						// Give the transforms a chance to rework the complete set of changes
+						const results = await generation.finalizeChanges()
+						if (results) {
+							report = createReport()
+							results.forEach((result) => addToReport(report, result))
+						}
+						await generation.commit(getMessageText(messages))
+					}
+				} else {
+					// Handle a one-off generation
+					// Stop waiting once cancelled, even if the generate function ignores the signal
+					const result = await Promise.race([
+						generateFn!({ editor, prompt: serializedPrompt, signal }),
+						whenAborted(signal),
+					]).catch((error) => {
+						if (cancelled) {
+							console.error('Cancelled')
+						} else {
+							console.error('Fetch error:', error)
+							requestError = error
+						}
+					})
+
+					if (requestError) {
+						// Nothing was applied, but the generation still needs to stop watching the editor
+						await generation.fail(requestError)
+					} else if (result && !cancelled) {
+						// Without any messages, the result's text is the AI's message
+						const {
+							changes,
+							text,
+							messages: received = text ? [{ type: 'message', text }] : [],
+						} = Array.isArray(result) ? ({ changes: result } as TLAiResult) : result
+						for (const message of received) await receiveMessage(message)
+						receiveChanges(changes.length, 'applying')
+						pendingChanges.push(...changes)
+						const results = await generation.handleChanges(changes)
+						results.forEach((result) => addToReport(report, result))
+						// The messages include any answer, which a follow-up prompt may need to see
+						await generation.commit(getMessageText(messages) ?? text)
+					}
+				}
+			} catch (e) {
+				// Once cancelled, the changes so far have been settled by the cancel policy, and the
+				// stream may throw as its request is aborted
+				if (cancelled) return report
+				// Otherwise, revert the changes so far and reject with the error
+				await generation.fail(e)
+				fail(e)
+				throw e
+			}
+
+			if (!cancelled && report.applied.length) {
+				const changes = report.applied.map((result) => result.change)
+				this.addToTranscript({ type: 'changes', promptId, changes })
+			}
+
+			if (requestError) {
+				fail(requestError)
+			} else {
+				end()
+			}
+
+			// If successful, save the previous options / response
+			if (!cancelled && !requestError) {
+				this.previousArguments = opts
+				this.previousChanges = pendingChanges
+			}
+
+			if (!cancelled) this.emit('complete', report)
+			return report
+		}
+
+		const cancel = () => {
+			if (started) end()
+			if (!cancelled) this.emit('cancel')
+			cancelled = true
+			controller.abort('Cancelled by user')
+			// Settle the changes so far according to the prompt's cancel policy
+			cancelGeneration?.()
+		}
+
+		// Returns the promise that will resolve the changes, and a helper to cancel the request
+		return this.schedule(run, cancel)
+	}
+
+	/**
+	 * Repeat the previous prompt and changes.
+	 *
+	 * This is useful for when you want to re-run the same prompt and changes
+	 * without having to re-generate the prompt. Mainly used for debugging.
+	 *
+	 * @returns An object with a promise that resolves with a report of the applied changes once they have all been handled, and a cancel function to abort the work.
+	 */
+	repeat() {
+		const { module: ai } = this
+
+		let cancelled = false
+		let cancelGeneration: (() => Promise<void>) | null = null
+
+		const run = async (): Promise<TLAiReport> => {
+			const report = createReport()
+			if (cancelled) return report
+
+			// Repeat the previous arguments and changes
+			const prevOpts = this.previousArguments
+			const changes = this.previousChanges
+			this.setStatus({ ...IDLE_STATUS, state: 'building-prompt', startedAt: Date.now() })
+
+			let generation: Awaited<ReturnType<typeof ai.generate>> | null = null
+			try {
+				generation = await ai.generate(prevOpts)
+				cancelGeneration = generation.cancel
+				this.emit('start', generation.prompt)
+				this.setStatus({
+					...this.getStatus(),
+					state: 'applying',
+					received: changes.length,
+					firstChangeAt: Date.now(),
+				})
+				const results = await generation.handleChanges(changes)
+				results.forEach((result) => addToReport(report, result))
+				await generation.commit()
+			} catch (e) {
+				// Once cancelled, the changes so far have been settled by the cancel policy
+				if (cancelled) return report
+				await generation?.fail(e)
+				this.setStatus({ ...this.getStatus(), state: 'idle', error: e, endedAt: Date.now() })
+				this.emit('error', e)
+				throw e
+			}
+
+			this.setStatus({
+				...this.getStatus(),
+				state: 'idle',
+				applied: report.applied.length,
+				endedAt: Date.now(),
+			})
+
+			this.emit('complete', report)
+			return report
+		}
+
+		return this.schedule(run, () => {
+			if (!cancelled) this.emit('cancel')
+			cancelled = true
+			cancelGeneration?.()
+		})
+	}
+
+	/**
+	 * Cancel the running prompt, along with any prompts that are queued.
+	 */
+	cancel() {
+		for (const cancelPrompt of [...this.cancelFunctions]) cancelPrompt()
+	}
+
+	/**
+	 * Change the session's options, such as to use a different model. The session keeps its
+	 * conversation, transcript and preview. The editor can't be changed. Prompts that are already
+	 * running may see some of the new options.
+	 *
+	 * @param opts The new options, which replace the current ones
+	 */
+	setOptions(opts: Omit<TldrawAiSessionOptions, 'editor'>) {
+		this.opts = { ...opts, editor: this.editor }
+		this.module.setOptions(opts)
+	}
+
+	/**
+	 * Cancel every prompt and stop listening to the editor. The session should not be used afterwards.
+	 */
+	dispose() {
+		this.cancel()
+		this.events.clear()
+		this.module.dispose()
+	}
+
+	/**
+	 * Run a prompt once the prompts before it have settled, according to the concurrency policy.
+	 *
+	 * @param run A function that runs the prompt
+	 * @param cancel A function that cancels the prompt, whether it is running or still queued
+	 */
+	private schedule(run: () => Promise<TLAiReport>, cancel: () => void) {
+		const { concurrency = 'queue' } = this.opts
+
+		if (this.cancelFunctions.size > 0) {
+			if (concurrency === 'reject') {
+				return { promise: Promise.reject(new TldrawAiBusyError()), cancel: () => {} }
+			}
+			if (concurrency === 'supersede') {
+				this.cancel()
+			}
+		}
+
+		const promise = this.queue.then(run)
+		this.queue = promise.catch(() => {})
+
+		const cancelPrompt = () => {
+			this.cancelFunctions.delete(cancelPrompt)
+			cancel()
+		}
+		this.cancelFunctions.add(cancelPrompt)
+		const remove = () => void this.cancelFunctions.delete(cancelPrompt)
+		promise.then(remove, remove)
+
+		return { promise, cancel: cancelPrompt }
+	}
+}
+
+/**
+ * Get a promise that rejects with an `AbortError` once the signal is aborted.
+ */
+function whenAborted(signal: AbortSignal) {
+	const promise = new Promise<never>((_, reject) => {
+		const abort = () => reject(new DOMException('Cancelled by user', 'AbortError'))
+		if (signal.aborted) abort()
+		else signal.addEventListener('abort', abort, { once: true })
+	})
+	// The promise is only ever raced, so it shouldn't be reported as unhandled
+	promise.catch(() => {})
+	return promise
+}
+
+/**
+ * Iterate over a stream until the signal is aborted, then throw an `AbortError` and stop the stream.
+ */
+async function* abortable<T>(stream: AsyncIterable<T>, signal: AbortSignal): AsyncGenerator<T> {
+	const iterator = stream[Symbol.asyncIterator]()
+	const aborted = whenAborted(signal)
+	try {
+		while (true) {
+			const result = await Promise.race([iterator.next(), aborted])
+			if (result.done) return
+			yield result.value
+		}
+	} finally {
+		// Don't wait for a stream that ignores the signal to finish
+		iterator.return?.().catch(() => {})
+	}
+}
+
+/**
+ * Get the text of the AI's messages to the user, leaving out its reasoning.
+ */
+function getMessageText(messages: TLAiAssistantMessage[]) {
+	const text = messages
+		.filter((message) => message.type === 'message')
+		.map((message) => message.text)
+		.join('\n\n')
+	return text || undefined
+}
+
+function createReport(): TLAiReport {
+	return { applied: [], skipped: [], failed: [], conflicts: [] }
+}
+
+function addToReport(report: TLAiReport, result: TLAiChangeResult) {
+	report[result.status].push(result)
+	if (result.conflicts) report.conflicts.push(result)
+}
@@ -1,26 +1,66 @@
 import { Editor } from 'tldraw'
-import { TLAiChange, TLAiPrompt } from './types'
+import { TLAiAssistantMessage, TLAiChange, TLAiPrompt } from './types'
 
+/**
+ * A transform that modifies prompts before they are sent to the AI and changes as they are
+ * received. A new instance of each transform is created for every prompt, so per-generation state
+ * can be kept on the instance. Any of the methods may return a promise.
+ */
 export abstract class TldrawAiTransform {
 	constructor(public editor: Editor) {}
+	/**
+	 * Will run when the generation starts, before the prompt is created.
+	 */
+	onStart?(): void | Promise<void>
 	/**
 	 * Will run before the prompt is sent to the AI.
 	 * @param prompt The prompt to transform
 	 * @returns The transformed prompt
 	 */
-	transformPrompt?(prompt: TLAiPrompt): TLAiPrompt
+	transformPrompt?(prompt: TLAiPrompt): TLAiPrompt | Promise<TLAiPrompt>
 	/**
 	 * Will run after each change is received.
 	 * @param change The change to transform
 	 * @returns The transformed change
 	 */
-	transformChange?(change: TLAiChange): TLAiChange
+	transformChange?(change: TLAiChange): TLAiChange | Promise<TLAiChange>
 	/**
-	 * Will run after all changes have been received.
+	 * Will run after all changes have been received, and after each change has been through
+	 * `transformChange`. Use this to reorder, dedupe or lay out the changes as a whole. When streaming,
+	 * the changes that were applied as they arrived will be replaced with the result.
 	 * @param changes The changes to transform
 	 * @returns The transformed changes
 	 */
-	transformChanges?(changes: TLAiChange[]): TLAiChange[]
+	transformChanges?(changes: TLAiChange[]): TLAiChange[] | Promise<TLAiChange[]>
+	/**
+	 * Will run after each message or reasoning step is received from the AI, such as to map the ids
+	 * of the shapes that it refers to.
+	 * @param message The message to transform
+	 * @returns The transformed message
+	 */
+	transformMessage?(
+		message: TLAiAssistantMessage
+	): TLAiAssistantMessage | Promise<TLAiAssistantMessage>
+	/**
+	 * Will run once the generation's changes have been committed.
+	 */
+	onComplete?(): void | Promise<void>
+	/**
+	 * Will run if the generation fails. Any changes that were applied will have been reverted.
+	 * @param error The error that caused the generation to fail
+	 */
+	onError?(error: unknown): void | Promise<void>
+	/**
+	 * Will run if the generation is cancelled, once the applied changes have been settled by the
+	 * prompt's cancel policy: reverted (`revert`, the default), committed (`keep`), or committed except
+	 * for the shape that was in progress (`keep-completed`).
+	 */
+	onCancel?(): void | Promise<void>
+	/**
+	 * Will run once the generation has ended, whether it completed, failed or was cancelled. Use this
+	 * to release any per-generation state.
+	 */
+	dispose?(): void | Promise<void>
 }
 
 export interface TldrawAiTransformConstructor {
@@ -1,13 +1,38 @@
 // The parts of the module that are designed to run on the client.
 
-export { TldrawAiModule, type TldrawAiModuleOptions } from './TldrawAiModule'
-export { TldrawAiTransform, type TldrawAiTransformConstructor } from './TldrawAiTransform'
-export * from './types'
+export { TldrawAiConversation } from './TldrawAiConversation'
+export {
+	TldrawAiModule,
+	type TldrawAiChangeEvent,
+	type TldrawAiChangeHandler,
+	type TldrawAiChangeHandlers,
+	type TldrawAiImageOptions,
+	type TldrawAiModuleEvents,
+	type TldrawAiModuleOptions,
+	type TldrawAiProtectionOptions,
+} from './TldrawAiModule'
+export { TldrawAiPreview, type TldrawAiPreviewItem } from './TldrawAiPreview'
+export { TldrawAiPreviewOverlay } from './TldrawAiPreviewOverlay'
 export {
-	useTldrawAi,
+	TldrawAiBusyError,
+	TldrawAiSession,
 	type TldrawAiGenerateFn,
-	type TldrawAiOptions,
 	type TldrawAiPromptOptions,
+	type TldrawAiSessionEvents,
+	type TldrawAiSessionOptions,
+	type TldrawAiStatus,
 	type TldrawAiStreamFn,
-} from './useTldrawAi'
-export { asMessage, exhaustiveSwitchError } from './utils'
+	type TldrawAiTranscriptEntry,
+} from './TldrawAiSession'
+export { TldrawAiTransform, type TldrawAiTransformConstructor } from './TldrawAiTransform'
+export * from './types'
+export { useTldrawAi, type TldrawAiOptions } from './useTldrawAi'
+export {
+	asMessage,
+	exhaustiveSwitchError,
+	getShapeProvenance,
+	getShapesFromGeneration,
+	isActionChange,
+	isAssistantMessage,
+	isCanvasChange,
+} from './utils'
@@ -0,0 +1,31 @@
+import {
+	createTLStore,
+	defaultAddFontsFromNode,
+	defaultBindingUtils,
+	defaultShapeUtils,
+	Editor,
+	tipTapDefaultExtensions,
+} from 'tldraw'
+import { vi } from 'vitest'
+
+/**
+ * Create an editor with the default shapes and bindings, for use in tests.
+ */
+export function createTestEditor() {
+	const editor = new Editor({
+		store: createTLStore({ shapeUtils: defaultShapeUtils, bindingUtils: defaultBindingUtils }),
+		shapeUtils: defaultShapeUtils,
+		bindingUtils: defaultBindingUtils,
+		tools: [],
+		getContainer: () => document.body,
+		textOptions: {
+			tipTapConfig: { extensions: tipTapDefaultExtensions },
+			addFontsFromNode: defaultAddFontsFromNode,
+		},
+	})
+
+	// Rendering images isn't supported in the test environment
+	vi.spyOn(editor, 'toImage').mockResolvedValue({ blob: new Blob(), width: 0, height: 0 })
+
+	return editor
+}
@@ -40,6 +40,16 @@ export interface TLAiPrompt {
 	contextBounds: Box
 	/** The bounds of the prompt in the editor */
 	promptBounds: Box
+	/** The ids of the selected shapes, which the prompt is focused on. Other shapes are context. */
+	selectedShapeIds?: TLShapeId[]
+	/** The ids of the shapes that the AI may not change, which are read-only context */
+	protectedShapeIds?: TLShapeId[]
+	/** Which kinds of changes the AI may make for this prompt */
+	changePolicy?: TLAiChangePolicy
+	/** Whether the AI should change the canvas, or only answer a question about it */
+	mode?: TLAiPromptMode
+	/** The previous turns in the conversation, oldest first */
+	conversation?: TLAiConversationTurn[]
 	/** Any additional information. Must be JSON serializable! */
 	meta?: any
 }
@@ -91,9 +101,9 @@ export interface TLAiDeleteBindingChange {
 }
 
 /**
- * A generated change that can be applied to the editor.
+ * A generated change to the shapes or bindings on the canvas.
  */
-export type TLAiChange =
+export type TLAiCanvasChange =
 	| TLAiCreateShapeChange
 	| TLAiUpdateShapeChange
 	| TLAiDeleteShapeChange
@@ -101,13 +111,220 @@ export type TLAiChange =
 	| TLAiUpdateBindingChange
 	| TLAiDeleteBindingChange
 
+export interface TLAiZoomToBoundsChange {
+	type: 'zoomToBounds'
+	description: string
+	/** The bounds to fit in the user's viewport, in page space */
+	bounds: BoxModel
+}
+
+export interface TLAiSelectShapesChange {
+	type: 'selectShapes'
+	description: string
+	/** The shapes to select. An empty array clears the selection. */
+	shapeIds: TLShapeId[]
+}
+
+export interface TLAiHighlightShapesChange {
+	type: 'highlightShapes'
+	description: string
+	shapeIds: TLShapeId[]
+	/** How long to highlight the shapes for, in milliseconds. Defaults to 2 seconds. */
+	duration?: number
+}
+
+/**
+ * A generated action that changes what the user sees, such as by moving the camera, rather than
+ * changing the canvas. Actions are kept out of the undo history.
+ */
+export type TLAiActionChange =
+	| TLAiZoomToBoundsChange
+	| TLAiSelectShapesChange
+	| TLAiHighlightShapesChange
+
+/**
+ * The custom change types that an app has added, keyed by their type. Custom changes are handled by
+ * the module's `changeHandlers` rather than applied to the canvas. Add to this interface with
+ * declaration merging; each change should have a `type` matching its key and a `description`.
+ *
+ * @example
+ * ```ts
+ * declare module '@tldraw/ai' {
+ * 	interface TLAiCustomChanges {
+ * 		speak: { type: 'speak'; description: string; text: string }
+ * 	}
+ * }
+ * ```
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface TLAiCustomChanges {}
+
+/**
+ * A change of one of the custom types that an app has added.
+ */
+export type TLAiCustomChange = TLAiCustomChanges[keyof TLAiCustomChanges]
+
+/**
+ * A generated change that can be applied to the editor.
+ */
+export type TLAiChange = TLAiCanvasChange | TLAiActionChange | TLAiCustomChange
+
+/**
+ * A short description of a change that was made in a previous turn of the conversation.
+ */
+export interface TLAiChangeSummary {
+	type: TLAiChange['type']
+	/** The id of the shape or binding that was changed */
+	id?: string
+	description: string
+}
+
+/**
+ * A previous message from the user.
+ */
+export interface TLAiUserTurn {
+	role: 'user'
+	message: TLAiMessage[]
+}
+
+/**
+ * A previous response from the AI.
+ */
+export interface TLAiAssistantTurn {
+	role: 'assistant'
+	/** Any text that the AI returned alongside its changes, such as its strategy */
+	text?: string
+	/** The changes that were applied */
+	changes: TLAiChangeSummary[]
+}
+
+export type TLAiConversationTurn = TLAiUserTurn | TLAiAssistantTurn
+
+/**
+ * What to do with the changes that have already been applied when a generation is cancelled.
+ *
+ * - `revert` removes every change.
+ * - `keep` keeps every change that has been applied so far.
+ * - `keep-completed` keeps the changes to every shape except the one that the AI was still working
+ *   on (the shape targeted by the most recent change).
+ */
+export type TLAiCancelPolicy = 'revert' | 'keep' | 'keep-completed'
+
+/**
+ * Which kinds of changes may be applied for a prompt. Changes that are not allowed are skipped.
+ */
+export interface TLAiChangePolicy {
+	/** The types of change that are allowed, such as `createShape`. Defaults to every type. */
+	changeTypes?: TLAiChange['type'][]
+	/**
+	 * The types of shape that may be created, updated or deleted, such as `note`. Defaults to every
+	 * type. Changes to bindings are not affected.
+	 */
+	shapeTypes?: string[]
+}
+
+/**
+ * What to do when the AI changes a shape that the user changed during the generation: skip the AI's
+ * change (`user-wins`), apply it anyway (`ai-wins`), or keep the user from changing the shapes that
+ * the AI has changed until the generation ends (`lock`). Under the lock policy, changes to shapes
+ * that the user changed before the AI did are skipped.
+ */
+export type TLAiConflictPolicy = 'user-wins' | 'ai-wins' | 'lock'
+
+/**
+ * What the AI should do with a prompt: change the canvas (`edit`, the default), or only answer a
+ * question about it (`answer`), such as "what's missing from this diagram?". In answer mode, the
+ * AI's answer is a message, and any changes to the canvas are skipped. Actions, such as highlighting
+ * shapes, are still applied.
+ */
+export type TLAiPromptMode = 'edit' | 'answer'
+
+/**
+ * The outcome of applying a change to the editor.
+ */
+export interface TLAiChangeResult {
+	/** Whether the change was applied, skipped (e.g. it was already applied), or failed */
+	status: 'applied' | 'skipped' | 'failed'
+	/** The change, as it was received */
+	change: TLAiChange
+	/** Why the change was skipped or failed */
+	reason?: string
+	/** The error thrown while applying the change, if any */
+	error?: unknown
+	/** The shapes that the change targets which the user changed during the generation, if any */
+	conflicts?: TLShapeId[]
+}
+
+/**
+ * A report of which changes from a generation were applied, skipped or failed.
+ */
+export interface TLAiReport {
+	applied: TLAiChangeResult[]
+	skipped: TLAiChangeResult[]
+	failed: TLAiChangeResult[]
+	/** The changes that target shapes which the user changed during the generation */
+	conflicts: TLAiChangeResult[]
+}
+
 export type TLAiContent = Omit<TLContent, 'schema' | 'rootShapeIds'> & {
 	bindings: TLBinding[]
+	/** Summaries of shapes that were left out of the content to keep it within the context budget */
+	clusters?: TLAiShapeCluster[]
+}
+
+/**
+ * A summary of a group of nearby shapes that were left out of a prompt's content.
+ */
+export interface TLAiShapeCluster {
+	/** The number of shapes in the cluster */
+	count: number
+	/** The bounds of the cluster in the editor */
+	bounds: BoxModel
+	/** The most common type of shape in the cluster */
+	type: string
+	/** Some of the text in the cluster's shapes, if any */
+	text?: string
+}
+
+/**
+ * Something that the AI said alongside its changes: a message to the user, such as a description of
+ * its strategy, or a step in its reasoning.
+ */
+export interface TLAiAssistantMessage {
+	type: 'message' | 'reasoning'
+	/** The text of the message, which may be markdown */
+	text: string
+	/** The shapes that the message refers to, such as the shapes that an answer is about */
+	shapeIds?: TLShapeId[]
 }
 
+/**
+ * An item in a stream from the AI: a change, or something that the AI said.
+ */
+export type TLAiStreamItem = TLAiChange | TLAiAssistantMessage
+
 /**
  * The response from the AI.
  */
 export type TLAiResult = {
 	changes: TLAiChange[]
+	/** Any text that the AI returned alongside its changes, such as its strategy */
+	text?: string
+	/** The messages and reasoning steps that the AI returned alongside its changes, in order */
+	messages?: TLAiAssistantMessage[]
+}
+
+/**
+ * Where a shape came from: the generation that last created or updated it. The module stores this
+ * in the shape's `meta.aiProvenance` when its `provenance` option is set.
+ */
+export type TLAiProvenance = {
+	/** The id of the prompt whose generation created or updated the shape */
+	promptId: string
+	/** The name of the model that generated the change, if known */
+	model?: string
+	/** When the change was applied, in milliseconds since the epoch */
+	timestamp: number
+	/** The description of the change */
+	description: string
 }
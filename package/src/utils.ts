@@ -1,4 +1,26 @@
-import { TLAiMessage, TLAiMessages } from './types'
+import {
+	Box,
+	Editor,
+	RecordsDiff,
+	reverseRecordsDiff,
+	squashRecordDiffs,
+	TLRecord,
+	TLShape,
+	TLShapeId,
+	VecLike,
+} from 'tldraw'
+import {
+	TLAiActionChange,
+	TLAiAssistantMessage,
+	TLAiCanvasChange,
+	TLAiChange,
+	TLAiContent,
+	TLAiMessage,
+	TLAiMessages,
+	TLAiProvenance,
+	TLAiShapeCluster,
+	TLAiStreamItem,
+} from './types'
 
 /** @public */
 export function exhaustiveSwitchError(value: never, property?: string): never {
@@ -13,3 +35,481 @@ export function asMessage(message: TLAiMessages): TLAiMessage[] {
 	if (typeof message === 'string') return [{ type: 'text', text: message }]
 	return [message]
 }
+
+const CANVAS_CHANGE_TYPES = new Set<string>([
+	'createShape',
+	'updateShape',
+	'deleteShape',
+	'createBinding',
+	'updateBinding',
+	'deleteBinding',
+] satisfies TLAiCanvasChange['type'][])
+
+const ACTION_CHANGE_TYPES = new Set<string>([
+	'zoomToBounds',
+	'selectShapes',
+	'highlightShapes',
+] satisfies TLAiActionChange['type'][])
+
+/**
+ * Get whether a change is one of the built-in changes to the canvas, rather than an action or a
+ * custom change.
+ *
+ * @public
+ */
+export function isCanvasChange(change: TLAiChange): change is TLAiCanvasChange {
+	return CANVAS_CHANGE_TYPES.has(change.type)
+}
+
+/**
+ * Get whether a change is one of the built-in actions, such as moving the camera, which change what
+ * the user sees rather than the canvas.
+ *
+ * @public
+ */
+export function isActionChange(change: TLAiChange): change is TLAiActionChange {
+	return ACTION_CHANGE_TYPES.has(change.type)
+}
+
+/**
+ * Get whether an item from a stream is something that the AI said, rather than a change.
+ *
+ * @public
+ */
+export function isAssistantMessage(item: TLAiStreamItem): item is TLAiAssistantMessage {
+	return item.type === 'message' || item.type === 'reasoning'
+}
+
+/** The key of a shape's provenance in its `meta`. */
+const PROVENANCE_META_KEY = 'aiProvenance'
+
+/**
+ * Get the provenance of a shape: the generation that last created or updated it, if any.
+ *
+ * @param editor The editor that contains the shape
+ * @param shape The shape or its id
+ *
+ * @public
+ */
+export function getShapeProvenance(
+	editor: Editor,
+	shape: TLShape | TLShapeId
+): TLAiProvenance | undefined {
+	const record = editor.getShape(shape)
+	return record?.meta[PROVENANCE_META_KEY] as TLAiProvenance | undefined
+}
+
+/**
+ * Get the shapes, on any page, that a generation was the last to create or update.
+ *
+ * @param editor The editor that contains the shapes
+ * @param promptId The id of the generation's prompt
+ *
+ * @public
+ */
+export function getShapesFromGeneration(editor: Editor, promptId: string): TLShape[] {
+	return editor.store.query
+		.records('shape')
+		.get()
+		.filter((shape) => getShapeProvenance(editor, shape)?.promptId === promptId)
+}
+
+/**
+ * Add provenance to the shape in a change that creates or updates a shape. Other changes are
+ * returned as they are.
+ *
+ * @internal
+ */
+export function withProvenance(change: TLAiChange, provenance: TLAiProvenance): TLAiChange {
+	if (!isCanvasChange(change)) return change
+	switch (change.type) {
+		case 'createShape':
+		case 'updateShape': {
+			const meta = { ...change.shape.meta, [PROVENANCE_META_KEY]: provenance }
+			return { ...change, shape: { ...change.shape, meta } } as TLAiChange
+		}
+		default:
+			return change
+	}
+}
+
+/**
+ * Collects changes made to the editor without recording them in the undo history, so that they can
+ * later be committed as a single history entry or reverted without touching the user's own edits.
+ *
+ * @param editor The editor to apply changes to
+ *
+ * @internal
+ */
+export function createHistoryBatch(editor: Editor) {
+	let diffs: RecordsDiff<TLRecord>[] = []
+
+	const revert = () => {
+		const diff = squashRecordDiffs(diffs)
+		diffs = []
+		editor.run(() => editor.store.applyDiff(reverseRecordsDiff(diff), { runCallbacks: false }), {
+			history: 'ignore',
+		})
+		return diff
+	}
+
+	return {
+		/**
+		 * Run a function that makes changes to the editor, keeping those changes out of the undo history.
+		 */
+		apply(fn: () => void) {
+			diffs.push(
+				editor.store.extractingChanges(() => {
+					editor.run(fn, {
+						ignoreShapeLock: false, // ? should this be true?
+						history: 'ignore',
+					})
+				})
+			)
+		},
+		/**
+		 * Replace the changes applied so far with a single history entry, preceded by the given mark.
+		 *
+		 * @returns The diff of the committed changes.
+		 */
+		commit(markId: string) {
+			// The user may have changed some of the same records since they were applied
+			const ids = getRecordsDiffIds(squashRecordDiffs(diffs))
+			const current = new Map(ids.map((id) => [id, editor.store.get(id)]))
+
+			const diff = revert()
+			if (isRecordsDiffEmpty(diff)) return diff
+			editor.markHistoryStoppingPoint(markId)
+			editor.run(() => editor.store.applyDiff(diff, { runCallbacks: false }), {
+				history: 'record',
+			})
+
+			// Keep the user's changes, outside of the undo history
+			const userDiff: RecordsDiff<TLRecord> = { added: {}, updated: {}, removed: {} }
+			for (const [id, record] of current) {
+				const committed = editor.store.get(id)
+				if (record === committed) continue
+				if (!committed) {
+					userDiff.added[id] = record!
+				} else if (!record) {
+					userDiff.removed[id] = committed
+				} else {
+					userDiff.updated[id] = [committed, record]
+				}
+			}
+			if (!isRecordsDiffEmpty(userDiff)) {
+				editor.run(() => editor.store.applyDiff(userDiff, { runCallbacks: false }), {
+					history: 'ignore',
+				})
+			}
+
+			return diff
+		},
+		/**
+		 * Undo the changes applied so far.
+		 */
+		revert,
+	}
+}
+
+function getRecordsDiffIds(diff: RecordsDiff<TLRecord>) {
+	return [
+		...Object.keys(diff.added),
+		...Object.keys(diff.updated),
+		...Object.keys(diff.removed),
+	] as TLRecord['id'][]
+}
+
+/** @internal */
+export function isRecordsDiffEmpty(diff: RecordsDiff<TLRecord>) {
+	return (
+		Object.keys(diff.added).length === 0 &&
+		Object.keys(diff.updated).length === 0 &&
+		Object.keys(diff.removed).length === 0
+	)
+}
+
+/**
+ * Creates a typed set of event listeners. Errors thrown by listeners are logged rather than thrown,
+ * so that a listener can't break the work that emitted the event.
+ *
+ * @internal
+ */
+export function createEventEmitter<Events extends { [K in keyof Events]: unknown[] }>() {
+	let listeners: { [K in keyof Events]?: Set<(...args: Events[K]) => void> } = {}
+
+	return {
+		/**
+		 * Listen to an event.
+		 *
+		 * @returns A function that removes the listener.
+		 */
+		on<K extends keyof Events>(event: K, listener: (...args: Events[K]) => void) {
+			const set = (listeners[event] ??= new Set())
+			set.add(listener)
+			return () => {
+				set.delete(listener)
+			}
+		},
+		/**
+		 * Call every listener for an event.
+		 */
+		emit<K extends keyof Events>(event: K, ...args: Events[K]) {
+			listeners[event]?.forEach((listener) => {
+				try {
+					listener(...args)
+				} catch (e) {
+					console.error(`Error in ${String(event)} listener:`, e)
+				}
+			})
+		},
+		/**
+		 * Remove every listener.
+		 */
+		clear() {
+			listeners = {}
+		},
+	}
+}
+
+/** The maximum length of the text in a cluster summary. */
+const MAX_CLUSTER_TEXT_LENGTH = 200
+
+/**
+ * Get a rough estimate of the number of tokens that a value will use in a prompt, assuming about
+ * four characters of JSON per token.
+ *
+ * @internal
+ */
+export function estimateTokens(value: unknown) {
+	return Math.ceil(JSON.stringify(value).length / 4)
+}
+
+/**
+ * Reduce a prompt's content to fit within a token budget. Each top-level shape (along with its
+ * descendants) is ranked: selected shapes first, then by distance to the prompt bounds, then by how
+ * recently the shape was changed. Shapes are included in that order until the budget is used up,
+ * and the rest are summarized in clusters of nearby shapes.
+ *
+ * @param editor The editor that the content is from
+ * @param content The content to reduce
+ * @param opts.budget The approximate number of tokens that the shapes and bindings may use
+ * @param opts.promptBounds The bounds of the prompt
+ * @param opts.selectedShapeIds The ids of the selected shapes, which are always included
+ * @param opts.getLastChanged Get when a shape was last changed, where higher is more recent
+ *
+ * @internal
+ */
+export function fitContentToBudget(
+	editor: Editor,
+	content: TLAiContent,
+	opts: {
+		budget: number
+		promptBounds: Box
+		selectedShapeIds: TLShapeId[]
+		getLastChanged(id: TLShapeId): number
+	}
+): TLAiContent {
+	const { budget, promptBounds, selectedShapeIds, getLastChanged } = opts
+	if (estimateTokens(content.shapes) + estimateTokens(content.bindings) <= budget) return content
+
+	// Group the shapes into trees, so that a shape is never sent without its parent
+	const shapeIds = new Set(content.shapes.map((shape) => shape.id))
+	const children = new Map<string, TLShape[]>()
+	for (const shape of content.shapes) {
+		const siblings = children.get(shape.parentId) ?? []
+		siblings.push(shape)
+		children.set(shape.parentId, siblings)
+	}
+	const getTree = (shape: TLShape): TLShape[] => [
+		shape,
+		...(children.get(shape.id) ?? []).flatMap(getTree),
+	]
+
+	const trees = content.shapes
+		.filter((shape) => !shapeIds.has(shape.parentId as TLShapeId))
+		.map((root) => {
+			const shapes = getTree(root)
+			const bounds = editor.getShapePageBounds(root)
+			return {
+				shapes,
+				bounds,
+				isSelected: shapes.some((shape) => selectedShapeIds.includes(shape.id)),
+				distance: bounds ? getDistanceBetweenBoxes(bounds, promptBounds) : Infinity,
+				lastChanged: Math.max(...shapes.map((shape) => getLastChanged(shape.id))),
+				tokens: estimateTokens(shapes),
+			}
+		})
+		.sort(
+			(a, b) =>
+				Number(b.isSelected) - Number(a.isSelected) ||
+				a.distance - b.distance ||
+				b.lastChanged - a.lastChanged
+		)
+
+	const included: TLShape[] = []
+	const excluded: typeof trees = []
+	let tokens = 0
+	for (const tree of trees) {
+		// Once a tree doesn't fit, every tree that is ranked lower is summarized too
+		if (tree.isSelected || (!excluded.length && tokens + tree.tokens <= budget)) {
+			included.push(...tree.shapes)
+			tokens += tree.tokens
+		} else {
+			excluded.push(tree)
+		}
+	}
+
+	const includedIds = new Set(included.map((shape) => shape.id))
+
+	// Group the excluded trees into a grid of cells the size of the prompt bounds
+	const cellSize = Math.max(promptBounds.w, promptBounds.h, 1)
+	const cells = new Map<string, typeof trees>()
+	for (const tree of excluded) {
+		if (!tree.bounds) continue
+		const key = `${Math.floor(tree.bounds.midX / cellSize)},${Math.floor(tree.bounds.midY / cellSize)}`
+		const cell = cells.get(key) ?? []
+		cell.push(tree)
+		cells.set(key, cell)
+	}
+
+	const clusters: TLAiShapeCluster[] = []
+	for (const cell of cells.values()) {
+		const shapes = cell.flatMap((tree) => tree.shapes)
+
+		const typeCounts = new Map<string, number>()
+		for (const shape of shapes) {
+			typeCounts.set(shape.type, (typeCounts.get(shape.type) ?? 0) + 1)
+		}
+		const [type] = [...typeCounts].reduce((a, b) => (b[1] > a[1] ? b : a))
+
+		const text = shapes
+			.map((shape) => editor.getShapeUtil(shape).getText(shape)?.trim())
+			.filter(Boolean)
+			.join(', ')
+			.slice(0, MAX_CLUSTER_TEXT_LENGTH)
+
+		clusters.push({
+			count: shapes.length,
+			bounds: Box.Common(cell.map((tree) => tree.bounds!)).toJson(),
+			type,
+			text: text || undefined,
+		})
+	}
+
+	return {
+		...content,
+		shapes: content.shapes.filter((shape) => includedIds.has(shape.id)),
+		bindings: content.bindings.filter(
+			(binding) => includedIds.has(binding.fromId) && includedIds.has(binding.toId)
+		),
+		clusters,
+	}
+}
+
+function getDistanceBetweenBoxes(a: Box, b: Box) {
+	const dx = Math.max(0, a.minX - b.maxX, b.minX - a.maxX)
+	const dy = Math.max(0, a.minY - b.maxY, b.minY - a.maxY)
+	return Math.hypot(dx, dy)
+}
+
+/**
+ * Get the changes that would bring shapes inside of some bounds. In the `clamp` mode, each shape is
+ * moved inside of the bounds on its own. In the `translate` mode, the shapes are moved together as
+ * a group, and in the `scale` mode, the group is also scaled down if it is too large to fit. The
+ * shapes inside of the shapes move (and scale) with them.
+ *
+ * @param editor The editor that contains the shapes
+ * @param shapeIds The ids of the shapes, none of which should be inside of another
+ * @param bounds The bounds to bring the shapes inside of, in page space
+ * @param mode How to bring the shapes inside of the bounds
+ *
+ * @internal
+ */
+export function getChangesToFitBounds(
+	editor: Editor,
+	shapeIds: TLShapeId[],
+	bounds: Box,
+	mode: 'clamp' | 'translate' | 'scale'
+): TLAiChange[] {
+	const getBounds = (ids: TLShapeId[]) =>
+		Box.Common(ids.flatMap((id) => editor.getShapePageBounds(id) ?? []))
+
+	// Make the changes to find out where the shapes end up, then undo them
+	const batch = createHistoryBatch(editor)
+	batch.apply(() => {
+		if (mode === 'clamp') {
+			for (const id of shapeIds) {
+				editor.nudgeShapes([id], getOffsetToFit(getBounds([id]), bounds))
+			}
+			return
+		}
+
+		let common = getBounds(shapeIds)
+		if (mode === 'scale') {
+			const scale = Math.min(1, bounds.w / common.w, bounds.h / common.h)
+			if (scale < 1) {
+				// Scale the shapes inside of the shapes too, such as the shapes in a frame. Each is scaled
+				// from where it was to begin with, parents before their children.
+				const initial = [...editor.getShapeAndDescendantIds(shapeIds)].flatMap((id) => {
+					const shape = editor.getShape(id)
+					return shape
+						? [
+								{
+									shape,
+									pageTransform: editor.getShapePageTransform(id),
+									bounds: editor.getShapeGeometry(id).bounds,
+								},
+							]
+						: []
+				})
+				for (const { shape, pageTransform, bounds } of initial) {
+					editor.resizeShape(
+						shape.id,
+						{ x: scale, y: scale },
+						{
+							initialShape: shape,
+							initialPageTransform: pageTransform,
+							initialBounds: bounds,
+							scaleOrigin: common.point,
+							scaleAxisRotation: 0,
+							isAspectRatioLocked: true,
+						}
+					)
+				}
+				common = getBounds(shapeIds)
+			}
+		}
+		editor.nudgeShapes(shapeIds, getOffsetToFit(common, bounds))
+	})
+	const diff = batch.revert()
+
+	// Include the shapes inside of the shapes, which may have been scaled along with them
+	const changes: TLAiChange[] = []
+	for (const [, record] of Object.values(diff.updated)) {
+		if (record.typeName !== 'shape') continue
+		const { id, type, x, y, props } = record
+		changes.push({
+			type: 'updateShape',
+			description: 'Move the shape inside of the prompt bounds',
+			shape: { id, type, x, y, props },
+		})
+	}
+	return changes
+}
+
+/**
+ * Get the smallest offset that would move a box inside of some bounds. If the box is larger than
+ * the bounds, its top left corner is moved to the top left corner of the bounds.
+ */
+function getOffsetToFit(box: Box, bounds: Box): VecLike {
+	const getOffset = (min: number, max: number, boundsMin: number, boundsMax: number) => {
+		if (max - min > boundsMax - boundsMin || min < boundsMin) return boundsMin - min
+		if (max > boundsMax) return boundsMax - max
+		return 0
+	}
+	return {
+		x: getOffset(box.minX, box.maxX, bounds.minX, bounds.maxX),
+		y: getOffset(box.minY, box.maxY, bounds.minY, bounds.maxY),
+	}
+}